@@ -0,0 +1,46 @@
+import { api } from "@/convex/_generated/api";
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getConvexClient, getServiceIdentity } from "@/lib/convex";
+import { getAvailableModels } from "@/lib/models";
+import { modelRequestSchema } from "@/lib/types";
+
+export const runtime = "edge";
+export const dynamic = "force-dynamic";
+
+// Switches the model of a chat to one in the model registry
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = modelRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+    const { chatId, modelId } = parsed.data;
+
+    if (!getAvailableModels().some(({ id }) => id === modelId)) {
+      return NextResponse.json({ error: `Unknown model '${modelId}'` }, { status: 400 });
+    }
+
+    await getConvexClient().mutation(api.chats.setModel, {
+      id: chatId,
+      modelId,
+      service: getServiceIdentity(userId),
+    });
+
+    return NextResponse.json({ modelId });
+  } catch (error) {
+    console.error("Error changing model:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,35 @@
-import { submitQuestion } from "@/lib/langgraph";
+import { getAgentToken, submitQuestion } from "@/lib/langgraph";
 import { api } from "@/convex/_generated/api";
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
-import { getConvexClient } from "@/lib/convex";
 import {
-  ChatRequestBody,
-  StreamMessage,
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { getConvexClient, getServiceIdentity } from "@/lib/convex";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { unescapeMessage } from "@/lib/utils";
+import {
+  getStreamRun,
+  startStreamRun,
+  stopStreamRun,
+  StreamEvent,
+  StreamRun,
+} from "@/lib/streamRuns";
+import {
+  chatRequestSchema,
+  MessageStatus,
   StreamMessageType,
   SSE_DATA_PREFIX,
+  SSE_EVENT_PREFIX,
+  SSE_HEARTBEAT,
+  SSE_ID_PREFIX,
   SSE_LINE_DELIMITER,
+  SSE_RETRY_PREFIX,
+  ToolCallRecord,
 } from "@/lib/types";
 
 // Important: These export configurations are critical for Edge API routes
@@ -17,16 +37,29 @@ export const runtime = "edge";
 export const dynamic = "force-dynamic";
 export const fetchCache = "force-no-store";
 
+// How often a reply is saved while tokens stream in
+const REPLY_SAVE_INTERVAL_MS = 1000;
+
+// Idle time after which proxies may drop a connection is often 30-60s;
+// tool calls can take longer than that
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// How long clients should wait before reconnecting to a dropped stream
+const RECONNECT_DELAY_MS = 1000;
+
+const encoder = new TextEncoder();
+
 // Helper function to send SSE messages
 function sendSSEMessage(
   writer: WritableStreamDefaultWriter<Uint8Array>,
-  data: StreamMessage
+  { id, message }: StreamEvent
 ) {
   try {
-    const encoder = new TextEncoder();
     return writer.write(
       encoder.encode(
-        `${SSE_DATA_PREFIX}${JSON.stringify(data)}${SSE_LINE_DELIMITER}`
+        `${SSE_EVENT_PREFIX}${message.type}\n` +
+          `${SSE_ID_PREFIX}${id}\n` +
+          `${SSE_DATA_PREFIX}${JSON.stringify(message)}${SSE_LINE_DELIMITER}`
       )
     );
   } catch (error) {
@@ -35,12 +68,122 @@ function sendSSEMessage(
   }
 }
 
-// Handle all HTTP methods to prevent 405 errors
+// Streams a run's events to the client, starting after `lastEventId`. The
+// client going away only ends this connection; the run keeps going for a
+// while in case the client reconnects, and is cancelled if it does not
+function streamResponse(req: Request, run: StreamRun, lastEventId?: string) {
+  const stream = new TransformStream();
+  const writer = stream.writable.getWriter();
+
+  let unsubscribe = () => {};
+  const disconnect = run.connect();
+  const heartbeat = setInterval(() => {
+    writer.write(encoder.encode(SSE_HEARTBEAT)).catch(() => end());
+  }, HEARTBEAT_INTERVAL_MS);
+  const end = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    disconnect();
+  };
+
+  writer
+    .write(encoder.encode(`${SSE_RETRY_PREFIX}${RECONNECT_DELAY_MS}${SSE_LINE_DELIMITER}`))
+    .catch(() => end());
+  unsubscribe = run.subscribe((event) => {
+    if (event) {
+      sendSSEMessage(writer, event).catch(() => end());
+    } else {
+      end();
+      writer.close().catch(() => {});
+    }
+  }, lastEventId);
+  req.signal.addEventListener("abort", () => end());
+
+  return new Response(stream.readable, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+      "Access-Control-Allow-Origin": "*"
+    }
+  });
+}
+
+// Tool inputs are traced as a JSON string; send them as an object
+function parseToolInput(input: unknown) {
+  const raw = (input as { input?: unknown } | undefined)?.input ?? input;
+  if (typeof raw !== "string") return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// Tools called by the graph return a ToolMessage; send its content, and
+// the artifact of tools that return structured data as well
+function toolOutput(output: unknown) {
+  if (!(output instanceof ToolMessage)) return { output };
+  return output.artifact == null
+    ? { output: output.content }
+    : { output: output.content, artifact: output.artifact };
+}
+
+// Tool events do not carry the id of the tool call they run, so find it
+// among the calls the agent requested by tool name and arguments
+function findToolCallId(
+  calls: ToolCall[],
+  tool: string,
+  input: unknown,
+  claimed: Set<string>
+) {
+  const args = JSON.stringify(input);
+  return calls.find(
+    ({ id, name, args: callArgs }) =>
+      id && !claimed.has(id) && name === tool && JSON.stringify(callArgs) === args
+  )?.id;
+}
+
+// Builds the LangChain history from the stored messages. Tool call blocks
+// rendered into older assistant replies are display-only and left out, as
+// are replies that produced no text
+function toLangChainHistory(messages: Doc<"messages">[]) {
+  return messages.flatMap((message) => {
+    const content = unescapeMessage(message.content)
+      .replace(/---START---[\s\S]*?---END---/g, "")
+      .trim();
+    if (message.role === "user") return [new HumanMessage(content)];
+    return content ? [new AIMessage(content)] : [];
+  });
+}
+
+// Reconnects to a chat's reply in progress, replaying the events after
+// the Last-Event-ID header
 export async function GET(req: Request) {
-  return NextResponse.json(
-    { error: "Method not allowed, use POST" },
-    { status: 405 }
-  );
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const chatId = new URL(req.url).searchParams.get("chatId") ?? "";
+  const lastEventId = req.headers.get("Last-Event-ID") ?? undefined;
+
+  try {
+    const run = await getStreamRun(chatId as Id<"chats">, userId);
+    if (!run || (lastEventId && !run.owns(lastEventId))) {
+      return NextResponse.json({ error: "Stream not found" }, { status: 404 });
+    }
+
+    console.log(`Resuming stream for chatId: ${chatId} after ${lastEventId ?? "the start"}`);
+    return streamResponse(req, run, lastEventId);
+  } catch (error) {
+    console.error("Error resuming stream:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
 }
 
 export async function PUT(req: Request) {
@@ -50,11 +193,26 @@ export async function PUT(req: Request) {
   );
 }
 
+// Stops a chat's reply in progress; what was generated so far is kept
 export async function DELETE(req: Request) {
-  return NextResponse.json(
-    { error: "Method not allowed, use POST" },
-    { status: 405 }
-  );
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const chatId = new URL(req.url).searchParams.get("chatId") ?? "";
+  try {
+    if (!(await stopStreamRun(chatId as Id<"chats">, userId))) {
+      return NextResponse.json({ error: "No reply in progress" }, { status: 404 });
+    }
+    return NextResponse.json({ stopped: true });
+  } catch (error) {
+    console.error("Error stopping stream:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
 }
 
 export async function PATCH(req: Request) {
@@ -73,9 +231,9 @@ export async function OPTIONS(req: Request) {
     status: 200,
     headers: {
       "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-      "Allow": "POST, OPTIONS"
+      "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, Last-Event-ID",
+      "Allow": "GET, POST, DELETE, OPTIONS"
     }
   });
 }
@@ -106,103 +264,248 @@ export async function POST(req: Request) {
       );
     }
 
-    // Parse request body
-    const body = await req.json();
-    const { messages, newMessage, chatId } = body as ChatRequestBody;
-    
+    // Parse and validate request body
+    const parsed = chatRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+    const { newMessage, chatId } = parsed.data;
+
     console.log(`Processing chat request for chatId: ${chatId}`);
 
-    // Initialize Convex client
+    // Initialize Convex client, acting as the authenticated user
     const convex = getConvexClient();
-    
-    // Create stream for SSE
-    const stream = new TransformStream();
-    const writer = stream.writable.getWriter();
+    const service = getServiceIdentity(userId);
+
+    // Look up the chat's model, checking the chat belongs to the user
+    const chat = await convex.query(api.chats.getChat, { id: chatId, service });
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    // Load the conversation so far; the client only sends the new message
+    const history = toLangChainHistory(
+      await convex.query(api.messages.list, { chatId, service })
+    );
+
+    // Buffer the reply's events so a dropped connection can resume
+    const run = await startStreamRun(chatId, userId);
+    if (!run) {
+      return NextResponse.json(
+        { error: "A reply is already being generated for this chat" },
+        { status: 409 }
+      );
+    }
+
+    // The reply as produced so far. It is saved while it streams, so a
+    // dropped connection still leaves what the model wrote
+    const reply = { content: "", toolCalls: [] as ToolCallRecord[] };
+    let replyId: Id<"messages"> | null = null;
+    let savedAt = 0;
+
+    const saveReply = async (status: MessageStatus, error?: string) => {
+      if (!replyId) return;
+      savedAt = Date.now();
+      try {
+        await convex.mutation(api.messages.updateReply, {
+          messageId: replyId,
+          ...reply,
+          status,
+          error,
+          service,
+        });
+      } catch (error) {
+        console.error("Failed to save reply to Convex:", error);
+      }
+    };
+
+    // Keeps what was produced before the run was stopped; calls cut short
+    // never get a result
+    const saveStoppedReply = () => {
+      for (const call of reply.toolCalls) {
+        if (call.durationMs === undefined) call.error = "Stopped";
+      }
+      return saveReply("aborted");
+    };
 
-    // Start async processing
-    (async () => {
+    // Start async processing. It outlives the request, so the reply is
+    // finished and saved even if the client never reconnects
+    after((async () => {
       try {
         // Send connection established message
-        await sendSSEMessage(writer, { type: StreamMessageType.Connected });
+        run.publish({ type: StreamMessageType.Connected });
 
         // Save user message to Convex
         try {
           await convex.mutation(api.messages.send, {
             chatId,
             content: newMessage,
+            service,
           });
         } catch (error) {
           console.error("Failed to save message to Convex:", error);
           // Continue even if saving fails
         }
 
+        replyId = await convex.mutation(api.messages.startReply, { chatId, service });
+
         // Prepare messages for LangChain
-        const langChainMessages = [
-          ...messages.map((msg) =>
-            msg.role === "user"
-              ? new HumanMessage(msg.content)
-              : new AIMessage(msg.content)
-          ),
-          new HumanMessage(newMessage),
-        ];
+        const langChainMessages = [...history, new HumanMessage(newMessage)];
 
         // Get response from LangGraph
-        const eventStream = await submitQuestion(langChainMessages, chatId);
+        const eventStream = await submitQuestion(langChainMessages, chatId, userId, {
+          modelId: chat.modelId,
+          signal: run.signal,
+        });
         
+        // Tool calls in progress, by run id
+        const runningTools = new Map<string, { tool: string; input: unknown; startedAt: number }>();
+        // Ids of the agent's tool calls that have already ended
+        const endedToolCalls = new Set<string>();
+
+        // Records a tool call's result on the reply
+        const endToolCall = (
+          callId: string,
+          result: Pick<ToolCallRecord, "output" | "artifact" | "durationMs" | "error">
+        ) => {
+          const call = reply.toolCalls.find((toolCall) => toolCall.callId === callId);
+          if (call) Object.assign(call, result);
+        };
+
         // Process the response stream
         for await (const event of eventStream) {
           if (!event) continue;
 
-          if (event.event === "on_chat_model_stream") {
-            const token = event.data?.chunk;
-            if (token && token.content) {
-              let tokenText = "";
-              
-              if (typeof token.content === "string") {
-                tokenText = token.content;
-              } else if (Array.isArray(token.content) && token.content.length > 0) {
-                const content = token.content[0];
-                tokenText = typeof content === "object" && content.text 
-                  ? content.text 
-                  : String(content);
-              }
-              
-              if (tokenText) {
-                await sendSSEMessage(writer, {
-                  type: StreamMessageType.Token,
-                  token: tokenText,
-                });
-              }
+          if (event.event === "on_tool_start") {
+            const startedAt = Date.now();
+            const input = parseToolInput(event.data?.input);
+            runningTools.set(event.run_id, { tool: event.name, input, startedAt });
+            reply.toolCalls.push({
+              callId: event.run_id,
+              tool: event.name,
+              input,
+              offset: reply.content.length,
+            });
+            run.publish({
+              type: StreamMessageType.ToolStart,
+              callId: event.run_id,
+              tool: event.name,
+              input,
+              startedAt,
+            });
+            await saveReply("streaming");
+            continue;
+          }
+
+          if (event.event === "on_tool_end") {
+            const running = runningTools.get(event.run_id);
+            runningTools.delete(event.run_id);
+            if (event.data?.output instanceof ToolMessage) {
+              endedToolCalls.add(event.data.output.tool_call_id);
+            }
+            const result = {
+              ...toolOutput(event.data?.output),
+              durationMs: Date.now() - (running?.startedAt ?? Date.now()),
+            };
+            endToolCall(event.run_id, result);
+            run.publish({
+              type: StreamMessageType.ToolEnd,
+              callId: event.run_id,
+              tool: event.name,
+              ...result,
+            });
+            await saveReply("streaming");
+            continue;
+          }
+
+          // A tool that throws never emits on_tool_end; the tools node turns
+          // the error into a ToolMessage for its tool call, so close the call
+          // from there
+          if (event.event === "on_chain_end" && event.name === "tools") {
+            const messages: BaseMessage[] = event.data?.output?.messages ?? [];
+            const requested: BaseMessage | undefined = event.data?.input?.messages?.at(-1);
+            const calls = requested instanceof AIMessage ? requested.tool_calls ?? [] : [];
+            for (const [callId, { tool, input, startedAt }] of runningTools) {
+              const toolCallId = findToolCallId(calls, tool, input, endedToolCalls);
+              if (toolCallId) endedToolCalls.add(toolCallId);
+              const failure = toolCallId
+                ? messages.find(
+                    (message) => message instanceof ToolMessage && message.tool_call_id === toolCallId
+                  )
+                : undefined;
+              const result = {
+                output: null,
+                durationMs: Date.now() - startedAt,
+                error: failure ? String(failure.content) : "The tool did not return a result",
+              };
+              endToolCall(callId, result);
+              run.publish({
+                type: StreamMessageType.ToolEnd,
+                callId,
+                tool,
+                ...result,
+              });
+            }
+            if (runningTools.size > 0) {
+              runningTools.clear();
+              await saveReply("streaming");
+            }
+            continue;
+          }
+
+          const tokenText = getAgentToken(event);
+          if (tokenText) {
+            reply.content += tokenText;
+            run.publish({
+              type: StreamMessageType.Token,
+              token: tokenText,
+            });
+            if (Date.now() - savedAt >= REPLY_SAVE_INTERVAL_MS) {
+              await saveReply("streaming");
             }
           }
         }
 
+        if (run.signal.aborted) {
+          await saveStoppedReply();
+          run.publish({ type: StreamMessageType.Error, error: "Generation stopped" });
+          return;
+        }
+
+        await saveReply("complete");
+
         // Send completion message
-        await sendSSEMessage(writer, { type: StreamMessageType.Done });
+        run.publish({
+          type: StreamMessageType.Done,
+          messageId: replyId,
+        });
       } catch (error) {
+        if (run.signal.aborted) {
+          console.log(`Generation stopped for chatId: ${chatId}`);
+          await saveStoppedReply();
+          run.publish({ type: StreamMessageType.Error, error: "Generation stopped" });
+          return;
+        }
+
         console.error("Error in stream processing:", error);
+        await saveReply("error", error instanceof Error ? error.message : "Unknown error");
         
         // Send error message
-        await sendSSEMessage(writer, {
+        run.publish({
           type: StreamMessageType.Error,
           error: error instanceof Error ? error.message : "Unknown error",
         });
       } finally {
-        // Close the writer
-        await writer.close().catch(console.error);
+        // Ends every connection following the run
+        await run.finish();
       }
-    })();
+    })());
 
     // Return the stream response
-    return new Response(stream.readable, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        "Connection": "keep-alive",
-        "X-Accel-Buffering": "no",
-        "Access-Control-Allow-Origin": "*"
-      }
-    });
+    return streamResponse(req, run);
   } catch (error) {
     console.error("Error in API route:", error);
     return NextResponse.json(
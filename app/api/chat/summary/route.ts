@@ -0,0 +1,46 @@
+import { refreshSummary } from "@/lib/langgraph";
+import { api } from "@/convex/_generated/api";
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getConvexClient, getServiceIdentity } from "@/lib/convex";
+import { summaryRequestSchema } from "@/lib/types";
+
+export const runtime = "edge";
+export const dynamic = "force-dynamic";
+
+// Rebuilds the conversation summary of a chat
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = summaryRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+    const { chatId } = parsed.data;
+
+    // Check the chat exists and belongs to the user
+    const chat = await getConvexClient().query(api.chats.getChat, {
+      id: chatId,
+      service: getServiceIdentity(userId),
+    });
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    const summary = await refreshSummary(chatId, userId, chat.modelId);
+    return NextResponse.json({ summary });
+  } catch (error) {
+    console.error("Error refreshing summary:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { api } from "@/convex/_generated/api";
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { getConvexClient, getServiceIdentity } from "@/lib/convex";
+import { generateApiKey, hashApiKey } from "@/lib/apiKeys";
+
+export const runtime = "edge";
+export const dynamic = "force-dynamic";
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is empty").max(64, "Name is longer than 64 characters"),
+});
+
+// Creates an API key for the user. The key is only ever shown in this
+// response; Convex stores its hash
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = createKeySchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { key, prefix } = generateApiKey();
+    const id = await getConvexClient().mutation(api.apiKeys.create, {
+      name: parsed.data.name,
+      keyHash: await hashApiKey(key),
+      prefix,
+      service: getServiceIdentity(userId),
+    });
+
+    return NextResponse.json({ id, key });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
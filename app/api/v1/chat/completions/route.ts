@@ -0,0 +1,188 @@
+import { getAgentToken, submitCompletion } from "@/lib/langgraph";
+import { api } from "@/convex/_generated/api";
+import { NextResponse } from "next/server";
+import { AIMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { getConvexClient, getServiceKey } from "@/lib/convex";
+import { hashApiKey } from "@/lib/apiKeys";
+import { countTokens } from "@/lib/contextWindow";
+import { getAvailableModels, resolveModel } from "@/lib/models";
+import {
+  chatCompletionRequestSchema,
+  SSE_DATA_PREFIX,
+  SSE_DONE_MESSAGE,
+  SSE_LINE_DELIMITER,
+} from "@/lib/types";
+
+export const runtime = "edge";
+export const dynamic = "force-dynamic";
+
+// Errors in the shape OpenAI clients expect
+function openAIError(status: number, message: string, type: string, code: string | null = null) {
+  return NextResponse.json({ error: { message, type, param: null, code } }, { status });
+}
+
+// Checks the bearer key and returns its owner
+async function authenticate(req: Request) {
+  const key = req.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!key) return null;
+
+  return await getConvexClient().mutation(api.apiKeys.verify, {
+    keyHash: await hashApiKey(key.trim()),
+    serviceKey: getServiceKey(),
+  });
+}
+
+// OpenAI-compatible chat completions, authenticated with a personal API
+// key. Runs the same agent as the chat UI on the conversation it is sent
+export async function POST(req: Request) {
+  try {
+    const userId = await authenticate(req);
+    if (!userId) {
+      return openAIError(
+        401,
+        "Invalid or missing API key. Send it as 'Authorization: Bearer <key>'.",
+        "invalid_request_error",
+        "invalid_api_key"
+      );
+    }
+
+    const parsed = chatCompletionRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      const [issue] = parsed.error.issues;
+      return openAIError(
+        400,
+        `${issue.path.join(".") || "body"}: ${issue.message}`,
+        "invalid_request_error"
+      );
+    }
+    const { model, messages, stream, tool_choice } = parsed.data;
+
+    if (model && !getAvailableModels().some(({ id }) => id === model)) {
+      return openAIError(
+        404,
+        `The model '${model}' does not exist`,
+        "invalid_request_error",
+        "model_not_found"
+      );
+    }
+    const modelConfig = resolveModel(model);
+    const modelId = modelConfig.id;
+
+    // System prompts are added to the agent's own; the rest is the history.
+    // Calls to caller-defined tools and their results are left out
+    const instructions = messages
+      .filter(({ role }) => role === "system" || role === "developer")
+      .map(({ content }) => content)
+      .join("\n\n");
+    const conversation = messages
+      .filter(({ role, content }) => role === "user" || (role === "assistant" && content))
+      .map(({ role, content }) =>
+        role === "user" ? new HumanMessage(content) : new AIMessage(content)
+      );
+    if (!(conversation.at(-1) instanceof HumanMessage)) {
+      return openAIError(400, "messages: the last message must be from the user", "invalid_request_error");
+    }
+
+    console.log(`Chat completion for user ${userId} with ${modelId}`);
+
+    const eventStream = await submitCompletion(conversation, {
+      modelId,
+      tools: tool_choice !== "none",
+      instructions: instructions || undefined,
+      signal: req.signal,
+    });
+
+    const id = `chatcmpl-${crypto.randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+
+    if (!stream) {
+      let content = "";
+      for await (const event of eventStream) {
+        content += getAgentToken(event);
+      }
+
+      // Estimated the same way as the context budget; the agent's own
+      // prompts and tool calls are not counted
+      const promptTokens = await countTokens(modelConfig.model, [
+        ...(instructions ? [new SystemMessage(instructions)] : []),
+        ...conversation,
+      ]);
+      const completionTokens = await countTokens(modelConfig.model, [new AIMessage(content)]);
+
+      return NextResponse.json({
+        id,
+        object: "chat.completion",
+        created,
+        model: modelId,
+        choices: [
+          { index: 0, message: { role: "assistant", content }, finish_reason: "stop" },
+        ],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const responseStream = new TransformStream();
+    const writer = responseStream.writable.getWriter();
+
+    const send = (data: unknown) =>
+      writer.write(
+        encoder.encode(
+          `${SSE_DATA_PREFIX}${typeof data === "string" ? data : JSON.stringify(data)}${SSE_LINE_DELIMITER}`
+        )
+      );
+    const chunk = (delta: Record<string, string>, finishReason: string | null = null) =>
+      send({
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model: modelId,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+
+    (async () => {
+      try {
+        await chunk({ role: "assistant", content: "" });
+        for await (const event of eventStream) {
+          const token = getAgentToken(event);
+          if (token) await chunk({ content: token });
+        }
+        await chunk({}, "stop");
+        await send(SSE_DONE_MESSAGE);
+      } catch (error) {
+        if (req.signal.aborted) return;
+        console.error("Error in chat completion stream:", error);
+        await send({
+          error: {
+            message: error instanceof Error ? error.message : "Unknown error",
+            type: "server_error",
+            param: null,
+            code: null,
+          },
+        }).catch(() => {});
+      } finally {
+        await writer.close().catch(() => {});
+      }
+    })();
+
+    return new Response(responseStream.readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("Error in chat completions route:", error);
+    return openAIError(
+      500,
+      error instanceof Error ? error.message : "Unknown error",
+      "server_error"
+    );
+  }
+}
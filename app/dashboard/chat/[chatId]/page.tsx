@@ -1,7 +1,8 @@
 import ChatInterface from "@/components/ChatInterface";
 import { Id } from "@/convex/_generated/dataModel";
 import { api } from "@/convex/_generated/api";
-import { getConvexClient } from "@/lib/convex";
+import { getConvexClient, getServiceIdentity } from "@/lib/convex";
+import { getAvailableModels, resolveModel } from "@/lib/models";
 import { redirect } from "next/navigation";
 import { auth } from "@clerk/nextjs/server";
 
@@ -30,11 +31,12 @@ export default async function ChatPage({ params }: ChatPageProps) {
 
     // Get Convex client and fetch chat and messages
     const convex = getConvexClient();
+    const service = getServiceIdentity(userId);
 
     // Check if chat exists & user is authorized to view it
     const chat = await convex.query(api.chats.getChat, {
       id: chatId,
-      userId,
+      service,
     });
 
     if (!chat) {
@@ -45,12 +47,21 @@ export default async function ChatPage({ params }: ChatPageProps) {
     }
 
     // Get messages
-    const initialMessages = await convex.query(api.messages.list, { chatId });
+    const initialMessages = await convex.query(api.messages.list, { chatId, service });
     console.log(`✅ Successfully loaded chat ${chatId} with ${initialMessages.length} messages`);
 
+    // Models the user can switch between, and the one this chat uses
+    const models = getAvailableModels();
+    const modelId = models.length ? resolveModel(chat.modelId).id : undefined;
+
     return (
       <div className="flex-1 overflow-hidden">
-        <ChatInterface chatId={chatId} initialMessages={initialMessages} />
+        <ChatInterface
+          chatId={chatId}
+          initialMessages={initialMessages}
+          models={models}
+          modelId={modelId}
+        />
       </div>
     );
   } catch (error) {
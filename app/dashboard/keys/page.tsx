@@ -0,0 +1,5 @@
+import { ApiKeys } from "@/components/ApiKeys";
+
+export default function ApiKeysPage() {
+  return <ApiKeys />;
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Check, Copy, KeyRound, Trash2 } from "lucide-react";
+import TimeAgo from "react-timeago";
+
+export function ApiKeys() {
+  const keys = useQuery(api.apiKeys.list);
+  const revokeKey = useMutation(api.apiKeys.revoke);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  // The key just created; it cannot be shown again once dismissed
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || isCreating) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `API error: ${response.status}`);
+      }
+      setNewKey(data.key);
+      setCopied(false);
+      setName("");
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      setError(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (id: Id<"apiKeys">, keyName: string) => {
+    if (!window.confirm(`Revoke "${keyName}"? Apps using it will stop working.`)) return;
+    try {
+      await revokeKey({ id });
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      setError(error instanceof Error ? error.message : "Unknown error");
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 space-y-6">
+      <div className="space-y-1">
+        <h2 className="text-xl font-semibold text-gray-900">API keys</h2>
+        <p className="text-sm text-gray-600">
+          Use Halal Jarvis from scripts, other apps and editors through its
+          OpenAI-compatible endpoint at{" "}
+          <code className="rounded bg-gray-100 px-1 py-0.5 text-xs">/api/v1/chat/completions</code>.
+          Send the key as <code className="rounded bg-gray-100 px-1 py-0.5 text-xs">Authorization: Bearer &lt;key&gt;</code>.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name, e.g. My editor"
+          maxLength={64}
+          className="flex-1 py-2 px-3 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-gray-50 text-sm placeholder:text-gray-500"
+          disabled={isCreating}
+        />
+        <Button
+          type="submit"
+          disabled={isCreating || !name.trim()}
+          className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white"
+        >
+          <KeyRound className="mr-2 h-4 w-4" /> Create key
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {newKey && (
+        <div className="rounded-xl bg-green-50 ring-1 ring-inset ring-green-200 p-4 space-y-2 text-sm">
+          <p className="font-medium text-green-900">
+            Copy your new key now. It will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded-lg bg-white px-2 py-1.5 font-mono text-xs text-gray-800 ring-1 ring-inset ring-green-200">
+              {newKey}
+            </code>
+            <Button variant="ghost" size="icon" onClick={handleCopy} title="Copy key">
+              {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setNewKey(null)}
+            className="text-xs text-green-800 underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {keys?.length === 0 && (
+          <p className="text-sm text-gray-400">You have no API keys yet.</p>
+        )}
+        {keys?.map((key) => (
+          <div
+            key={key._id}
+            className="group flex items-center justify-between rounded-xl bg-white ring-1 ring-inset ring-gray-200 shadow-sm px-4 py-3"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{key.name}</p>
+              <p className="text-xs text-gray-400">
+                <span className="font-mono">{key.prefix}…</span> · created{" "}
+                <TimeAgo date={key.createdAt} /> ·{" "}
+                {key.lastUsedAt ? (
+                  <>
+                    last used <TimeAgo date={key.lastUsedAt} />
+                  </>
+                ) : (
+                  "never used"
+                )}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleRevoke(key._id, key.name)}
+              title="Revoke key"
+            >
+              <Trash2 className="h-4 w-4 text-gray-400 hover:text-red-500 transition-colors" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
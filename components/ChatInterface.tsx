@@ -3,83 +3,134 @@
 import { useEffect, useRef, useState } from "react";
 import { Doc, Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
-import { ChatRequestBody, StreamMessageType } from "@/lib/types";
+import { ChatRequestBody, ModelOption, StreamMessageType } from "@/lib/types";
+import { escapeHtml, escapeMessage } from "@/lib/utils";
 import WelcomeMessage from "@/components/WelcomeMessage";
 import { createSSEParser } from "@/lib/SSEParser";
 import { MessageBubble } from "@/components/MessageBubble";
-import { ArrowRight } from "lucide-react";
-import { getConvexClient } from "@/lib/convex";
-import { api } from "@/convex/_generated/api";
+import { ConversationSummary } from "@/components/ConversationSummary";
+import { ModelSelector } from "@/components/ModelSelector";
+import { ArrowRight, Square } from "lucide-react";
+
+// Reconnects to a dropped stream back off exponentially between these
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 5;
 
 interface ChatInterfaceProps {
   chatId: Id<"chats">;
   initialMessages: Doc<"messages">[];
+  models: ModelOption[];
+  modelId?: string;
 }
 
+// Tool input and output may contain markup of their own; it is shown as text
+const formatToolOutput = (output: unknown): string =>
+  escapeHtml(typeof output === "string" ? output : JSON.stringify(output, null, 2));
+
+const formatTerminalOutput = (
+  tool: string,
+  input: unknown,
+  output: unknown,
+  details: { callId?: string; durationMs?: number; error?: string } = {}
+) => {
+  const { callId = "", durationMs, error } = details;
+  const terminalHtml = `<div class="bg-[#1e1e1e] text-white font-mono p-2 rounded-md my-2 overflow-x-auto whitespace-normal max-w-[600px]" data-call-id="${escapeHtml(callId)}">
+    <div class="flex items-center gap-1.5 border-b border-gray-700 pb-1">
+      <span class="text-red-500">●</span>
+      <span class="text-yellow-500">●</span>
+      <span class="text-green-500">●</span>
+      <span class="text-gray-400 ml-1 text-sm">~/${escapeHtml(tool)}</span>
+      ${durationMs !== undefined ? `<span class="text-gray-500 ml-auto text-xs">${durationMs} ms</span>` : ""}
+    </div>
+    <div class="text-gray-400 mt-1">$ Input</div>
+    <pre class="text-yellow-400 mt-0.5 whitespace-pre-wrap overflow-x-auto">${formatToolOutput(input)}</pre>
+    <div class="text-gray-400 mt-2">$ ${error ? "Error" : "Output"}</div>
+    <pre class="${error ? "text-red-400" : "text-green-400"} mt-0.5 whitespace-pre-wrap overflow-x-auto">${formatToolOutput(error ?? output)}</pre>
+  </div>`;
+
+  return `---START---\n${terminalHtml}\n---END---`;
+};
+
+// Stored replies keep their tool calls apart from the text; put the
+// terminal blocks back where the calls were made
+const formatStoredReply = (message: Doc<"messages">) => {
+  if (!message.toolCalls && !message.status) return message.content;
+
+  let content = "";
+  let from = 0;
+  for (const call of message.toolCalls ?? []) {
+    content +=
+      message.content.slice(from, call.offset) +
+      escapeMessage(
+        formatTerminalOutput(call.tool, call.input, call.artifact ?? call.output ?? "No result", {
+          callId: call.callId,
+          durationMs: call.durationMs,
+          error: call.error,
+        })
+      );
+    from = call.offset;
+  }
+  content += message.content.slice(from);
+
+  if (message.status === "aborted") {
+    content += escapeMessage(`\n<span class="text-xs text-gray-400">Stopped</span>`);
+  } else if (message.status === "error") {
+    content += escapeMessage(
+      formatTerminalOutput("error", "Failed to finish the reply", message.error ?? "Unknown error")
+    );
+  }
+  return content;
+};
+
 export default function ChatInterface({
   chatId,
   initialMessages,
+  models,
+  modelId,
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Doc<"messages">[]>(initialMessages);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [streamedResponse, setStreamedResponse] = useState("");
-  const [currentTool, setCurrentTool] = useState<{
-    name: string;
-    input: unknown;
-  } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Cancels the request of the reply being generated
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages, streamedResponse]);
 
-  const formatToolOutput = (output: unknown): string => {
-    if (typeof output === "string") return output;
-    return JSON.stringify(output, null, 2);
-  };
-
-  const formatTerminalOutput = (
-    tool: string,
-    input: unknown,
-    output: unknown
-  ) => {
-    const terminalHtml = `<div class="bg-[#1e1e1e] text-white font-mono p-2 rounded-md my-2 overflow-x-auto whitespace-normal max-w-[600px]">
-      <div class="flex items-center gap-1.5 border-b border-gray-700 pb-1">
-        <span class="text-red-500">●</span>
-        <span class="text-yellow-500">●</span>
-        <span class="text-green-500">●</span>
-        <span class="text-gray-400 ml-1 text-sm">~/${tool}</span>
-      </div>
-      <div class="text-gray-400 mt-1">$ Input</div>
-      <pre class="text-yellow-400 mt-0.5 whitespace-pre-wrap overflow-x-auto">${formatToolOutput(input)}</pre>
-      <div class="text-gray-400 mt-2">$ Output</div>
-      <pre class="text-green-400 mt-0.5 whitespace-pre-wrap overflow-x-auto">${formatToolOutput(output)}</pre>
-    </div>`;
-
-    return `---START---\n${terminalHtml}\n---END---`;
-  };
-
   /**
    * Processes a ReadableStream from the SSE response.
    * This function continuously reads chunks of data from the stream until it's done.
-   * Each chunk is decoded from Uint8Array to string and passed to the callback.
+   * Each chunk is passed to the callback as raw bytes; the SSE parser decodes
+   * them, keeping characters split across chunks intact.
    */
   const processStream = async (
     reader: ReadableStreamDefaultReader<Uint8Array>,
-    onChunk: (chunk: string) => Promise<void>
+    onChunk: (chunk: Uint8Array) => Promise<void>
   ) => {
     try {
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
-        await onChunk(new TextDecoder().decode(value));
+        await onChunk(value);
       }
     } finally {
       reader.releaseLock();
     }
   };
 
+  // The server keeps generating when the connection drops, so it has to
+  // be told to stop; it saves the partial reply as stopped
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    fetch(`/api/chat/stream?chatId=${encodeURIComponent(chatId)}`, {
+      method: "DELETE",
+    }).catch((error) => console.error("Error stopping the reply:", error));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const trimmedInput = input.trim();
@@ -88,7 +139,6 @@ export default function ChatInterface({
     // Reset UI state for new message
     setInput("");
     setStreamedResponse("");
-    setCurrentTool(null);
     setIsLoading(true);
 
     // Validate chat ID format
@@ -119,123 +169,178 @@ export default function ChatInterface({
     // Track complete response for saving to database
     let fullResponse = "";
 
+    // Terminal blocks of tool calls still running, by call id
+    const runningTools = new Map<string, { input: unknown; block: string }>();
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Id of the last event received, to resume from after a dropped connection
+    let lastEventId: string | undefined;
+    // Set once the server has ended the reply, successfully or not
+    let finished = false;
+    // Reconnects since events last arrived
+    let attempt = 0;
+    // First reconnect delay, unless the server asks for another
+    let retryDelay = RECONNECT_BASE_DELAY_MS;
+
     try {
-      // Prepare chat history and new message for API
+      // The server loads the chat history itself
       const requestBody: ChatRequestBody = {
-        messages: messages.map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        })),
         newMessage: trimmedInput,
         chatId,
       };
 
-      console.log(`Sending message to chat ${chatId} with ${messages.length} previous messages`);
+      console.log(`Sending message to chat ${chatId}`);
 
-      // Initialize SSE connection
-      const response = await fetch("/api/chat/stream", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
+      while (true) {
+        try {
+          // Initialize SSE connection. The first request submits the message;
+          // reconnects resume the reply after the last event received
+          const response =
+            lastEventId === undefined
+              ? await fetch("/api/chat/stream", {
+                  method: "POST",
+                  headers: { "Content-Type": "application/json" },
+                  body: JSON.stringify(requestBody),
+                  signal: abortController.signal,
+                })
+              : await fetch(`/api/chat/stream?chatId=${encodeURIComponent(chatId)}`, {
+                  headers: { "Last-Event-ID": lastEventId },
+                  signal: abortController.signal,
+                });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`API response error (${response.status}): ${errorText}`);
-        throw new Error(`API error: ${response.status} - ${errorText}`);
-      }
+          if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`API response error (${response.status}): ${errorText}`);
+            finished = true;
+            throw new Error(`API error: ${response.status} - ${errorText}`);
+          }
       
-      if (!response.body) throw new Error("No response body available");
-
-      // Create SSE parser and stream reader
-      const parser = createSSEParser();
-      const reader = response.body.getReader();
-
-      // Process the stream chunks
-      await processStream(reader, async (chunk) => {
-        // Parse SSE messages from the chunk
-        const messages = parser.parse(chunk);
-
-        // Handle each message based on its type
-        for (const message of messages) {
-          switch (message.type) {
-            case StreamMessageType.Token:
-              // Handle streaming tokens (normal text response)
-              if ("token" in message) {
-                fullResponse += message.token;
-                setStreamedResponse(fullResponse);
-              }
-              break;
-
-            case StreamMessageType.ToolStart:
-              // Handle start of tool execution (e.g. API calls, file operations)
-              if ("tool" in message) {
-                setCurrentTool({
-                  name: message.tool,
-                  input: message.input,
-                });
-                fullResponse += formatTerminalOutput(
-                  message.tool,
-                  message.input,
-                  "Processing..."
-                );
-                setStreamedResponse(fullResponse);
-              }
-              break;
-
-            case StreamMessageType.ToolEnd:
-              // Handle completion of tool execution
-              if ("tool" in message && currentTool) {
-                // Replace the "Processing..." message with actual output
-                const lastTerminalIndex = fullResponse.lastIndexOf(
-                  '<div class="bg-[#1e1e1e]'
-                );
-                if (lastTerminalIndex !== -1) {
-                  fullResponse =
-                    fullResponse.substring(0, lastTerminalIndex) +
-                    formatTerminalOutput(
-                      message.tool,
-                      currentTool.input,
-                      message.output
-                    );
+          if (!response.body) throw new Error("No response body available");
+
+          // Create SSE parser and stream reader
+          const parser = createSSEParser();
+          const reader = response.body.getReader();
+
+          // Process the stream chunks
+          await processStream(reader, async (chunk) => {
+            // Parse SSE messages from the chunk
+            const messages = parser.parse(chunk);
+            if (messages.length > 0) {
+              lastEventId = parser.getLastEventId() ?? lastEventId;
+              attempt = 0;
+            }
+            retryDelay = parser.getRetry() ?? retryDelay;
+
+            // Handle each message based on its type
+            for (const message of messages) {
+              switch (message.type) {
+                case StreamMessageType.Token:
+                  // Handle streaming tokens (normal text response)
+                  if ("token" in message) {
+                    fullResponse += message.token;
+                    setStreamedResponse(fullResponse);
+                  }
+                  break;
+
+                case StreamMessageType.ToolStart: {
+                  // Handle start of tool execution (e.g. API calls, file operations)
+                  const block = formatTerminalOutput(
+                    message.tool,
+                    message.input,
+                    "Processing...",
+                    { callId: message.callId }
+                  );
+                  runningTools.set(message.callId, { input: message.input, block });
+                  fullResponse += block;
                   setStreamedResponse(fullResponse);
+                  break;
                 }
-                setCurrentTool(null);
-              }
-              break;
 
-            case StreamMessageType.Error:
-              // Handle error messages from the stream
-              if ("error" in message) {
-                throw new Error(message.error);
+                case StreamMessageType.ToolEnd: {
+                  // Replace the call's "Processing..." block with its output, or with
+                  // the structured artifact of tools that return one
+                  const running = runningTools.get(message.callId);
+                  if (running) {
+                    fullResponse = fullResponse.replace(
+                      running.block,
+                      formatTerminalOutput(message.tool, running.input, message.artifact ?? message.output, {
+                        callId: message.callId,
+                        durationMs: message.durationMs,
+                        error: message.error,
+                      })
+                    );
+                    runningTools.delete(message.callId);
+                    setStreamedResponse(fullResponse);
+                  }
+                  break;
+                }
+
+                case StreamMessageType.Error:
+                  // Handle error messages from the stream
+                  if ("error" in message) {
+                    finished = true;
+                    throw new Error(message.error);
+                  }
+                  break;
+
+                case StreamMessageType.Done:
+                  finished = true;
+                  // Handle completion of the entire response. The server has
+                  // already saved the reply; show it as rendered while streaming
+                  const assistantMessage: Doc<"messages"> = {
+                    _id: message.messageId ?? `temp_assistant_${Date.now()}`,
+                    chatId,
+                    content: escapeMessage(fullResponse),
+                    role: "assistant",
+                    createdAt: Date.now(),
+                  } as Doc<"messages">;
+
+                  setMessages((prev) => [...prev, assistantMessage]);
+                  setStreamedResponse("");
+                  return;
               }
-              break;
-
-            case StreamMessageType.Done:
-              // Handle completion of the entire response
-              const assistantMessage: Doc<"messages"> = {
-                _id: `temp_assistant_${Date.now()}`,
-                chatId,
-                content: fullResponse,
-                role: "assistant",
-                createdAt: Date.now(),
-              } as Doc<"messages">;
-
-              // Save the complete message to the database
-              const convex = getConvexClient();
-              await convex.mutation(api.messages.store, {
-                chatId,
-                content: fullResponse,
-                role: "assistant",
-              });
-
-              setMessages((prev) => [...prev, assistantMessage]);
-              setStreamedResponse("");
-              return;
+            }
+          });
+
+          if (finished) break;
+          throw new Error("The connection closed before the reply finished");
+        } catch (error) {
+          // Only a dropped connection to a reply that has started can be
+          // resumed; anything the server reported is final
+          if (
+            finished ||
+            abortController.signal.aborted ||
+            lastEventId === undefined ||
+            attempt >= MAX_RECONNECT_ATTEMPTS
+          ) {
+            throw error;
           }
+
+          const delay = Math.min(retryDelay * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+          attempt++;
+          console.warn(`Stream interrupted, reconnecting in ${delay} ms:`, error);
+          await new Promise((resolve) => setTimeout(resolve, delay));
         }
-      });
+      }
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Keep what was generated before the user stopped it
+        const stoppedMessage: Doc<"messages"> = {
+          _id: `temp_assistant_${Date.now()}`,
+          chatId,
+          content: escapeMessage(fullResponse),
+          role: "assistant",
+          createdAt: Date.now(),
+          status: "aborted",
+        } as Doc<"messages">;
+
+        setMessages((prev) => [...prev, stoppedMessage]);
+        setStreamedResponse("");
+        return;
+      }
+
       // Handle any errors during streaming
       console.error("Error sending message:", error);
       // Remove the optimistic user message if there was an error
@@ -250,6 +355,7 @@ export default function ChatInterface({
         )
       );
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
@@ -261,10 +367,14 @@ export default function ChatInterface({
         <div className="max-w-4xl mx-auto p-4 space-y-3">
           {messages?.length === 0 && <WelcomeMessage />}
 
+          <ConversationSummary chatId={chatId} />
+
           {messages?.map((message: Doc<"messages">) => (
             <MessageBubble
               key={message._id}
-              content={message.content}
+              content={
+                message.role === "assistant" ? formatStoredReply(message) : message.content
+              }
               isUser={message.role === "user"}
             />
           ))}
@@ -294,6 +404,12 @@ export default function ChatInterface({
       {/* Input form */}
       <footer className="border-t bg-white p-4">
         <form onSubmit={handleSubmit} className="max-w-4xl mx-auto relative">
+          <ModelSelector
+            chatId={chatId}
+            models={models}
+            modelId={modelId}
+            disabled={isLoading}
+          />
           <div className="relative flex items-center">
             <input
               type="text"
@@ -303,17 +419,28 @@ export default function ChatInterface({
               className="flex-1 py-3 px-4 rounded-2xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent pr-12 bg-gray-50 placeholder:text-gray-500"
               disabled={isLoading}
             />
-            <Button
-              type="submit"
-              disabled={isLoading || !input.trim()}
-              className={`absolute right-1.5 rounded-xl h-9 w-9 p-0 flex items-center justify-center transition-all ${
-                input.trim()
-                  ? "bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
-                  : "bg-gray-100 text-gray-400"
-              }`}
-            >
-              <ArrowRight />
-            </Button>
+            {isLoading ? (
+              <Button
+                type="button"
+                onClick={handleStop}
+                aria-label="Stop generating"
+                className="absolute right-1.5 rounded-xl h-9 w-9 p-0 flex items-center justify-center transition-all bg-gray-900 hover:bg-gray-700 text-white shadow-sm"
+              >
+                <Square className="h-3.5 w-3.5 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!input.trim()}
+                className={`absolute right-1.5 rounded-xl h-9 w-9 p-0 flex items-center justify-center transition-all ${
+                  input.trim()
+                    ? "bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+                    : "bg-gray-100 text-gray-400"
+                }`}
+              >
+                <ArrowRight />
+              </Button>
+            )}
           </div>
         </form>
       </footer>
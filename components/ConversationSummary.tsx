@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, RefreshCw } from "lucide-react";
+import TimeAgo from "react-timeago";
+
+interface ConversationSummaryProps {
+  chatId: Id<"chats">;
+}
+
+export function ConversationSummary({ chatId }: ConversationSummaryProps) {
+  const data = useQuery(api.chats.getSummary, { id: chatId });
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only shown once older turns have been summarized
+  if (!data?.summary) return null;
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/chat/summary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chatId }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || `API error: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error refreshing summary:", error);
+      setError(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-white ring-1 ring-inset ring-gray-200 shadow-sm text-sm">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="flex items-center gap-1.5 font-medium text-gray-700"
+        >
+          {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          Summary of earlier messages
+        </button>
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          {data.updatedAt && <TimeAgo date={data.updatedAt} />}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+            title="Refresh summary"
+          >
+            <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+      {isOpen && (
+        <p className="border-t border-gray-100 px-4 py-3 text-gray-600 whitespace-pre-wrap leading-relaxed">
+          {data.summary}
+        </p>
+      )}
+      {error && <p className="px-4 pb-2 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useUser } from "@clerk/nextjs";
 import { BotIcon } from "lucide-react";
+import { unescapeMessage } from "@/lib/utils";
 
 interface MessageBubbleProps {
   content: string;
@@ -10,11 +11,8 @@ interface MessageBubbleProps {
 }
 
 const formatMessage = (content: string): string => {
-  // First unescape backslashes
-  content = content.replace(/\\\\/g, "\\");
-
-  // Then handle newlines
-  content = content.replace(/\\n/g, "\n");
+  // Undo the escaping of backslashes and newlines
+  content = unescapeMessage(content);
 
   // Remove only the markers but keep the content between them
   content = content.replace(/---START---\n?/g, "").replace(/\n?---END---/g, "");
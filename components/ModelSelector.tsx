@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import { Id } from "@/convex/_generated/dataModel";
+import { ModelOption } from "@/lib/types";
+
+interface ModelSelectorProps {
+  chatId: Id<"chats">;
+  models: ModelOption[];
+  modelId?: string;
+  disabled?: boolean;
+}
+
+export function ModelSelector({ chatId, models, modelId, disabled }: ModelSelectorProps) {
+  const [selected, setSelected] = useState(modelId);
+
+  // Nothing to choose between
+  if (models.length < 2) return null;
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const previous = selected;
+    setSelected(e.target.value);
+    try {
+      const response = await fetch("/api/chat/model", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chatId, modelId: e.target.value }),
+      });
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error changing model:", error);
+      setSelected(previous);
+    }
+  };
+
+  return (
+    <select
+      value={selected}
+      onChange={handleChange}
+      disabled={disabled}
+      aria-label="Model"
+      className="mb-2 rounded-lg border border-gray-200 bg-gray-50 px-2 py-1 text-xs text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {models.map((model) => (
+        <option key={model.id} value={model.id}>
+          {model.label}
+          {model.supportsTools ? "" : " · no tools"}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -5,6 +5,7 @@ import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Button } from "@/components/ui/button";
 import { PlusIcon, TrashIcon } from "@radix-ui/react-icons";
+import { KeyRound } from "lucide-react";
 import TimeAgo from "react-timeago";
 import { Doc, Id } from "@/convex/_generated/dataModel";
 import { cn } from "@/lib/utils";
@@ -81,6 +82,11 @@ export default function Sidebar() {
     closeMobileNav();
   };
 
+  const handleOpenApiKeys = () => {
+    router.push("/dashboard/keys");
+    closeMobileNav();
+  };
+
   const handleDeleteChat = async (id: Id<"chats">) => {
     await deleteChat({ id });
     // If we're currently viewing this chat, redirect to dashboard
@@ -119,6 +125,16 @@ export default function Sidebar() {
             <ChatRow key={chat._id} chat={chat} onDelete={handleDeleteChat} />
           ))}
         </div>
+
+        <div className="p-4 border-t border-gray-200/50">
+          <Button
+            variant="ghost"
+            onClick={handleOpenApiKeys}
+            className="w-full justify-start text-gray-600 hover:text-gray-900"
+          >
+            <KeyRound className="mr-2 h-4 w-4" /> API keys
+          </Button>
+        </div>
       </div>
     </>
   );
@@ -13,8 +13,12 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as apiKeys from "../apiKeys.js";
 import type * as chats from "../chats.js";
+import type * as checkpoints from "../checkpoints.js";
+import type * as lib_auth from "../lib/auth.js";
 import type * as messages from "../messages.js";
+import type * as streamRuns from "../streamRuns.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -25,8 +29,12 @@ import type * as messages from "../messages.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  apiKeys: typeof apiKeys;
   chats: typeof chats;
+  checkpoints: typeof checkpoints;
+  "lib/auth": typeof lib_auth;
   messages: typeof messages;
+  streamRuns: typeof streamRuns;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
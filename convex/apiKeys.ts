@@ -0,0 +1,77 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireServiceKey, requireUser, serviceIdentity } from "./lib/auth";
+
+export const list = query({
+  handler: async (ctx) => {
+    const userId = await requireUser(ctx);
+
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+
+    // The hash never leaves the server
+    return keys.map(({ _id, name, prefix, createdAt, lastUsedAt }) => ({
+      _id,
+      name,
+      prefix,
+      createdAt,
+      lastUsedAt,
+    }));
+  },
+});
+
+export const create = mutation({
+  args: {
+    name: v.string(),
+    keyHash: v.string(),
+    prefix: v.string(),
+    // Keys are generated on the server, which only sends their hash
+    service: serviceIdentity,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUser(ctx, args.service);
+
+    return await ctx.db.insert("apiKeys", {
+      userId,
+      name: args.name,
+      keyHash: args.keyHash,
+      prefix: args.prefix,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const revoke = mutation({
+  args: { id: v.id("apiKeys") },
+  handler: async (ctx, args) => {
+    const userId = await requireUser(ctx);
+
+    const key = await ctx.db.get(args.id);
+    if (!key || key.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Returns the owner of an API key, or null if no such key exists. Called by
+// the server, which does not know the user until the key is checked
+export const verify = mutation({
+  args: { keyHash: v.string(), serviceKey: v.string() },
+  handler: async (ctx, args) => {
+    requireServiceKey(args.serviceKey);
+
+    const key = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_key_hash", (q) => q.eq("keyHash", args.keyHash))
+      .first();
+    if (!key) return null;
+
+    await ctx.db.patch(key._id, { lastUsedAt: Date.now() });
+    return key.userId;
+  },
+});
@@ -0,0 +1,131 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const modules = import.meta.glob("./**/!(*.test).ts");
+
+const SERVICE_KEY = "test-service-key";
+
+const service = (userId: string, key = SERVICE_KEY) => ({ key, userId });
+
+// A Convex backend with one chat owned by alice
+const setup = async () => {
+  const t = convexTest(schema, modules);
+  const alice = t.withIdentity({ subject: "alice" });
+  const bob = t.withIdentity({ subject: "bob" });
+  const chatId = await alice.mutation(api.chats.createChat, { title: "Alice's chat" });
+  return { t, alice, bob, chatId };
+};
+
+const checkpoint = {
+  checkpointNs: "",
+  checkpointId: "1",
+  type: "json",
+  checkpoint: "{}",
+  metadata: "{}",
+};
+
+beforeEach(() => {
+  vi.stubEnv("CONVEX_SERVICE_KEY", SERVICE_KEY);
+});
+
+describe("chat access", () => {
+  it("lets the owner read and write their chat", async () => {
+    const { alice, chatId } = await setup();
+    await alice.mutation(api.messages.send, { chatId, content: "Salam" });
+    expect(await alice.query(api.messages.list, { chatId })).toHaveLength(1);
+    expect(await alice.query(api.chats.getChat, { id: chatId })).toMatchObject({ userId: "alice" });
+  });
+
+  it("rejects another user's chatId in messages.list and messages.send", async () => {
+    const { t, bob, chatId } = await setup();
+    await expect(bob.query(api.messages.list, { chatId })).rejects.toThrow("Unauthorized");
+    await expect(bob.mutation(api.messages.send, { chatId, content: "Hi" })).rejects.toThrow("Unauthorized");
+    await expect(
+      t.query(api.messages.list, { chatId, service: service("bob") })
+    ).rejects.toThrow("Unauthorized");
+  });
+
+  it("hides another user's chat from chats.getChat", async () => {
+    const { t, bob, chatId } = await setup();
+    expect(await bob.query(api.chats.getChat, { id: chatId })).toBeNull();
+    expect(await t.query(api.chats.getChat, { id: chatId, service: service("bob") })).toBeNull();
+  });
+
+  it("rejects calls without an identity", async () => {
+    const { t, chatId } = await setup();
+    await expect(t.query(api.messages.list, { chatId })).rejects.toThrow("Not authenticated");
+  });
+});
+
+describe("checkpoints", () => {
+  it("lets the server read and write the owner's checkpoints", async () => {
+    const { t, chatId } = await setup();
+    await t.mutation(api.checkpoints.put, { chatId, ...checkpoint, service: service("alice") });
+    await t.mutation(api.checkpoints.putWrites, {
+      chatId,
+      checkpointNs: "",
+      checkpointId: "1",
+      taskId: "task",
+      writes: [{ idx: 0, channel: "messages", type: "json", value: "[]" }],
+      service: service("alice"),
+    });
+
+    const saved = await t.query(api.checkpoints.get, { chatId, checkpointNs: "", service: service("alice") });
+    expect(saved?.checkpoint.checkpointId).toBe("1");
+    expect(saved?.writes).toHaveLength(1);
+    expect(await t.query(api.checkpoints.list, { chatId, service: service("alice") })).toHaveLength(1);
+  });
+
+  it("rejects another user's chatId", async () => {
+    const { t, chatId } = await setup();
+    const bob = service("bob");
+    await expect(t.query(api.checkpoints.get, { chatId, checkpointNs: "", service: bob })).rejects.toThrow("Unauthorized");
+    await expect(t.query(api.checkpoints.list, { chatId, service: bob })).rejects.toThrow("Unauthorized");
+    await expect(t.mutation(api.checkpoints.put, { chatId, ...checkpoint, service: bob })).rejects.toThrow("Unauthorized");
+    await expect(
+      t.mutation(api.checkpoints.putWrites, {
+        chatId,
+        checkpointNs: "",
+        checkpointId: "1",
+        taskId: "task",
+        writes: [],
+        service: bob,
+      })
+    ).rejects.toThrow("Unauthorized");
+  });
+
+  it("rejects the owner calling without the service", async () => {
+    const { alice, chatId } = await setup();
+    await expect(
+      // @ts-expect-error The service identity is required
+      alice.query(api.checkpoints.get, { chatId, checkpointNs: "" })
+    ).rejects.toThrow();
+  });
+});
+
+describe("service key", () => {
+  it("rejects a wrong CONVEX_SERVICE_KEY", async () => {
+    const { t, chatId } = await setup();
+    const forged = service("alice", "wrong-key");
+    await expect(t.query(api.messages.list, { chatId, service: forged })).rejects.toThrow("Invalid service key");
+    await expect(t.query(api.chats.getChat, { id: chatId, service: forged })).rejects.toThrow("Invalid service key");
+    await expect(
+      t.query(api.checkpoints.get, { chatId, checkpointNs: "", service: forged })
+    ).rejects.toThrow("Invalid service key");
+    await expect(
+      t.mutation(api.chats.updateSummary, { id: chatId, summary: "", service: forged })
+    ).rejects.toThrow("Invalid service key");
+  });
+
+  it("rejects every key when CONVEX_SERVICE_KEY is not set", async () => {
+    const { t, chatId } = await setup();
+    vi.stubEnv("CONVEX_SERVICE_KEY", "");
+    await expect(
+      t.query(api.messages.list, { chatId, service: service("alice") })
+    ).rejects.toThrow("Invalid service key");
+  });
+});
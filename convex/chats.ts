@@ -1,19 +1,26 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import {
+  requireChatAccess,
+  requireServiceKey,
+  requireUser,
+  serviceArgs,
+  serviceIdentity,
+} from "./lib/auth";
+import { deleteStreamRun } from "./streamRuns";
 
 export const createChat = mutation({
   args: {
     title: v.string(),
+    modelId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
+    const userId = await requireUser(ctx);
 
     const chat = await ctx.db.insert("chats", {
       title: args.title,
-      userId: identity.subject,
+      modelId: args.modelId,
+      userId,
       createdAt: Date.now(),
     });
 
@@ -23,15 +30,11 @@ export const createChat = mutation({
 
 export const listChats = query({
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    // console.log(identity);
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
+    const userId = await requireUser(ctx);
 
     const chats = await ctx.db
       .query("chats")
-      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .order("desc")
       .collect();
 
@@ -42,15 +45,7 @@ export const listChats = query({
 export const deleteChat = mutation({
   args: { id: v.id("chats") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const chat = await ctx.db.get(args.id);
-    if (!chat || chat.userId !== identity.subject) {
-      throw new Error("Unauthorized");
-    }
+    await requireChatAccess(ctx, args.id);
 
     // Delete all messages in the chat
     const messages = await ctx.db
@@ -62,23 +57,93 @@ export const deleteChat = mutation({
       await ctx.db.delete(message._id);
     }
 
+    // Delete the LangGraph checkpoints and pending writes of the chat
+    const checkpoints = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_checkpoint", (q) => q.eq("chatId", args.id))
+      .collect();
+    const writes = await ctx.db
+      .query("checkpointWrites")
+      .withIndex("by_checkpoint", (q) => q.eq("chatId", args.id))
+      .collect();
+
+    for (const doc of [...checkpoints, ...writes]) {
+      await ctx.db.delete(doc._id);
+    }
+
+    // Delete the buffered events of its replies
+    const runs = await ctx.db
+      .query("streamRuns")
+      .withIndex("by_chat", (q) => q.eq("chatId", args.id))
+      .collect();
+
+    for (const run of runs) {
+      await deleteStreamRun(ctx, run._id);
+    }
+
     // Delete the chat
     await ctx.db.delete(args.id);
   },
 });
 
+export const setModel = mutation({
+  args: {
+    id: v.id("chats"),
+    modelId: v.string(),
+    // Only the server may set the model, as only it knows the registry
+    service: serviceIdentity,
+  },
+  handler: async (ctx, args) => {
+    await requireChatAccess(ctx, args.id, args.service);
+
+    await ctx.db.patch(args.id, { modelId: args.modelId });
+  },
+});
+
+export const getSummary = query({
+  args: { id: v.id("chats") },
+  handler: async (ctx, args) => {
+    const chat = await requireChatAccess(ctx, args.id);
+
+    return {
+      summary: chat.summary ?? "",
+      updatedAt: chat.summaryUpdatedAt ?? null,
+    };
+  },
+});
+
+export const updateSummary = mutation({
+  args: {
+    id: v.id("chats"),
+    summary: v.string(),
+    // Only the server may write summaries, after summarizing the chat
+    service: serviceIdentity,
+  },
+  handler: async (ctx, args) => {
+    requireServiceKey(args.service.key);
+    await requireChatAccess(ctx, args.id, args.service);
+
+    await ctx.db.patch(args.id, {
+      summary: args.summary,
+      summaryUpdatedAt: Date.now(),
+    });
+  },
+});
+
 export const getChat = query({
-  args: { id: v.id("chats"), userId: v.string() },
+  args: { id: v.id("chats"), ...serviceArgs },
   handler: async (ctx, args) => {
+    const userId = await requireUser(ctx, args.service);
+
     try {
       const chat = await ctx.db.get(args.id);
 
       // Return null if chat doesn't exist or user is not authorized
-      if (!chat || chat.userId !== args.userId) {
+      if (!chat || chat.userId !== userId) {
         // console.log("❌ Chat not found or unauthorized", {
         //   chatExists: !!chat,
         //   chatUserId: chat?.userId,
-        //   requestUserId: args.userId,
+        //   requestUserId: userId,
         // });
         return null;
       }
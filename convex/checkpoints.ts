@@ -0,0 +1,160 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireChatAccess, requireServiceKey, ServiceIdentity, serviceIdentity } from "./lib/auth";
+
+// Channel LangGraph writes pending Send packets to
+const TASKS_CHANNEL = "__pregel_tasks";
+
+const writesFor = (ctx: QueryCtx, chatId: Id<"chats">, checkpointNs: string, checkpointId: string) =>
+  ctx.db
+    .query("checkpointWrites")
+    .withIndex("by_checkpoint", (q) =>
+      q.eq("chatId", chatId).eq("checkpointNs", checkpointNs).eq("checkpointId", checkpointId)
+    )
+    .collect();
+
+// Checkpoints are only read and written by the server's checkpointer, on
+// behalf of the chat's owner
+const requireCheckpointAccess = (ctx: QueryCtx, chatId: Id<"chats">, service: ServiceIdentity) => {
+  requireServiceKey(service.key);
+  return requireChatAccess(ctx, chatId, service);
+};
+
+// A checkpoint with its pending writes and the sends its parent left pending
+const withWrites = async (ctx: QueryCtx, checkpoint: Doc<"checkpoints">) => {
+  const { chatId, checkpointNs, checkpointId, parentCheckpointId } = checkpoint;
+
+  const writes = await writesFor(ctx, chatId, checkpointNs, checkpointId);
+  const pendingSends = parentCheckpointId
+    ? (await writesFor(ctx, chatId, checkpointNs, parentCheckpointId)).filter(
+        ({ channel }) => channel === TASKS_CHANNEL
+      )
+    : [];
+
+  return { checkpoint, writes, pendingSends };
+};
+
+export const get = query({
+  args: {
+    chatId: v.id("chats"),
+    checkpointNs: v.string(),
+    // Latest checkpoint of the thread when omitted
+    checkpointId: v.optional(v.string()),
+    service: serviceIdentity,
+  },
+  handler: async (ctx, args) => {
+    await requireCheckpointAccess(ctx, args.chatId, args.service);
+
+    const checkpoint = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_checkpoint", (q) => {
+        const thread = q.eq("chatId", args.chatId).eq("checkpointNs", args.checkpointNs);
+        return args.checkpointId ? thread.eq("checkpointId", args.checkpointId) : thread;
+      })
+      // Checkpoint ids are time-ordered, so the last one is the newest
+      .order("desc")
+      .first();
+
+    return checkpoint ? withWrites(ctx, checkpoint) : null;
+  },
+});
+
+export const list = query({
+  args: {
+    chatId: v.id("chats"),
+    // All namespaces when omitted
+    checkpointNs: v.optional(v.string()),
+    // Only checkpoints older than this id
+    before: v.optional(v.string()),
+    limit: v.optional(v.number()),
+    service: serviceIdentity,
+  },
+  handler: async (ctx, args) => {
+    await requireCheckpointAccess(ctx, args.chatId, args.service);
+
+    const checkpoints = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_checkpoint", (q) => {
+        const chat = q.eq("chatId", args.chatId);
+        return args.checkpointNs === undefined ? chat : chat.eq("checkpointNs", args.checkpointNs);
+      })
+      .collect();
+
+    const selected = checkpoints
+      .filter(({ checkpointId }) => !args.before || checkpointId < args.before)
+      .sort((a, b) => b.checkpointId.localeCompare(a.checkpointId))
+      .slice(0, args.limit);
+
+    return Promise.all(selected.map((checkpoint) => withWrites(ctx, checkpoint)));
+  },
+});
+
+export const put = mutation({
+  args: {
+    chatId: v.id("chats"),
+    checkpointNs: v.string(),
+    checkpointId: v.string(),
+    parentCheckpointId: v.optional(v.string()),
+    type: v.string(),
+    checkpoint: v.string(),
+    metadata: v.string(),
+    service: serviceIdentity,
+  },
+  handler: async (ctx, { service, ...args }) => {
+    await requireCheckpointAccess(ctx, args.chatId, service);
+
+    const existing = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_checkpoint", (q) =>
+        q.eq("chatId", args.chatId).eq("checkpointNs", args.checkpointNs).eq("checkpointId", args.checkpointId)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...args });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("checkpoints", { ...args, createdAt: Date.now() });
+  },
+});
+
+export const putWrites = mutation({
+  args: {
+    chatId: v.id("chats"),
+    checkpointNs: v.string(),
+    checkpointId: v.string(),
+    taskId: v.string(),
+    writes: v.array(
+      v.object({
+        idx: v.number(),
+        channel: v.string(),
+        type: v.string(),
+        value: v.string(),
+      })
+    ),
+    service: serviceIdentity,
+  },
+  handler: async (ctx, args) => {
+    const { writes, service, ...key } = args;
+    await requireCheckpointAccess(ctx, key.chatId, service);
+
+    const existing = (await writesFor(ctx, key.chatId, key.checkpointNs, key.checkpointId)).filter(
+      ({ taskId }) => taskId === key.taskId
+    );
+
+    for (const write of writes) {
+      const previous = existing.find(({ idx }) => idx === write.idx);
+      // Regular writes are kept from the first attempt; special writes such
+      // as errors and interrupts (negative indices) are replaced
+      if (previous && write.idx >= 0) continue;
+
+      if (previous) {
+        await ctx.db.patch(previous._id, write);
+      } else {
+        await ctx.db.insert("checkpointWrites", { ...key, ...write });
+      }
+    }
+  },
+});
@@ -0,0 +1,76 @@
+import { Infer, v } from "convex/values";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+
+/**
+ * Lets the Next.js server call Convex on behalf of a user it has already
+ * authenticated with Clerk. The key must match CONVEX_SERVICE_KEY in the
+ * Convex deployment, and the call is scoped to `userId`: it can only reach
+ * that user's chats, exactly as if the user had called it.
+ */
+export const serviceIdentity = v.object({
+  key: v.string(),
+  userId: v.string(),
+});
+
+export type ServiceIdentity = Infer<typeof serviceIdentity>;
+
+// Spread into the args of functions the server may call
+export const serviceArgs = {
+  service: v.optional(serviceIdentity),
+};
+
+type Ctx = QueryCtx | MutationCtx;
+
+// Compares in constant time so the key cannot be guessed byte by byte
+const keysMatch = (given: string, expected: string) => {
+  let diff = given.length ^ expected.length;
+  for (let i = 0; i < given.length; i++) {
+    diff |= given.charCodeAt(i) ^ expected.charCodeAt(i % expected.length);
+  }
+  return diff === 0;
+};
+
+/**
+ * Throws unless the key matches CONVEX_SERVICE_KEY, for functions only the
+ * server may call before it knows which user it acts for
+ */
+export const requireServiceKey = (key: string) => {
+  const expected = process.env.CONVEX_SERVICE_KEY;
+  if (!expected || !keysMatch(key, expected)) {
+    throw new Error("Invalid service key");
+  }
+};
+
+/**
+ * Returns the id of the calling user, from the Clerk identity or a valid
+ * service identity
+ */
+export const requireUser = async (ctx: Ctx, service?: ServiceIdentity) => {
+  if (service) {
+    requireServiceKey(service.key);
+    return service.userId;
+  }
+
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+  return identity.subject;
+};
+
+/**
+ * Returns the chat if the calling user owns it, and throws otherwise
+ */
+export const requireChatAccess = async (
+  ctx: Ctx,
+  chatId: Id<"chats">,
+  service?: ServiceIdentity
+) => {
+  const userId = await requireUser(ctx, service);
+  const chat = await ctx.db.get(chatId);
+  if (!chat || chat.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+  return chat;
+};
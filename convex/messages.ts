@@ -1,15 +1,19 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { requireChatAccess, serviceArgs, serviceIdentity } from "./lib/auth";
+import { messageStatus, toolCallRecord } from "./schema";
 
 const SHOW_COMMENTS = true;
 
+// Preserve newlines and backslashes; HTML is kept as is, since assistant
+// content is generated by our system
+const escapeContent = (content: string) =>
+  content.replace(/\n/g, "\\n").replace(/\\/g, "\\\\");
+
 export const list = query({
-  args: { chatId: v.id("chats") },
+  args: { chatId: v.id("chats"), ...serviceArgs },
   handler: async (ctx, args) => {
-    // const identity = await ctx.auth.getUserIdentity();
-    // if (!identity) {
-    //   throw new Error("Not authenticated");
-    // }
+    await requireChatAccess(ctx, args.chatId, args.service);
 
     try {
       const messages = await ctx.db
@@ -34,25 +38,16 @@ export const send = mutation({
   args: {
     chatId: v.id("chats"),
     content: v.string(),
+    ...serviceArgs,
   },
   handler: async (ctx, args) => {
     if (SHOW_COMMENTS) {
       console.log("📤 Sending message to chat:", args.chatId);
     }
 
-    // const identity = await ctx.auth.getUserIdentity();
-    // if (!identity) {
-    //   throw new Error("Not authenticated");
-    // }
+    await requireChatAccess(ctx, args.chatId, args.service);
 
     try {
-      // Verify the chat exists before trying to add a message
-      const chat = await ctx.db.get(args.chatId);
-      if (!chat) {
-        console.error(`Chat not found: ${args.chatId}`);
-        throw new Error(`Chat not found: ${args.chatId}`);
-      }
-
       // Save the user message with preserved newlines
       const messageId = await ctx.db.insert("messages", {
         chatId: args.chatId,
@@ -78,27 +73,21 @@ export const store = mutation({
     chatId: v.id("chats"),
     content: v.string(),
     role: v.union(v.literal("user"), v.literal("assistant")),
+    // Only the server may store messages
+    service: serviceIdentity,
   },
   handler: async (ctx, args) => {
     if (SHOW_COMMENTS) {
       console.log("💾 Storing message for chat:", args.chatId);
     }
 
-    try {
-      // Verify the chat exists before trying to add a message
-      const chat = await ctx.db.get(args.chatId);
-      if (!chat) {
-        console.error(`Chat not found: ${args.chatId}`);
-        throw new Error(`Chat not found: ${args.chatId}`);
-      }
+    await requireChatAccess(ctx, args.chatId, args.service);
 
+    try {
       // Store message with preserved newlines and HTML
       const messageId = await ctx.db.insert("messages", {
         chatId: args.chatId,
-        content: args.content
-          .replace(/\n/g, "\\n")
-          // Don't escape HTML - we'll trust the content since it's generated by our system
-          .replace(/\\/g, "\\\\"), // Only escape backslashes
+        content: escapeContent(args.content),
         role: args.role,
         createdAt: Date.now(),
       });
@@ -115,19 +104,63 @@ export const store = mutation({
   },
 });
 
-export const getLastMessage = query({
-  args: { chatId: v.id("chats") },
+export const startReply = mutation({
+  args: {
+    chatId: v.id("chats"),
+    service: serviceIdentity,
+  },
+  handler: async (ctx, args) => {
+    await requireChatAccess(ctx, args.chatId, args.service);
+
+    return await ctx.db.insert("messages", {
+      chatId: args.chatId,
+      content: "",
+      role: "assistant",
+      createdAt: Date.now(),
+      status: "streaming",
+      toolCalls: [],
+    });
+  },
+});
+
+export const updateReply = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+    status: messageStatus,
+    // Offsets are positions in `content` before escaping
+    toolCalls: v.array(toolCallRecord),
+    error: v.optional(v.string()),
+    service: serviceIdentity,
+  },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
+    const message = await ctx.db.get(args.messageId);
+    if (!message || message.role !== "assistant") {
+      throw new Error(`Reply not found: ${args.messageId}`);
     }
+    await requireChatAccess(ctx, message.chatId, args.service);
 
-    const chat = await ctx.db.get(args.chatId);
-    if (!chat || chat.userId !== identity.subject) {
-      throw new Error("Unauthorized");
+    if (SHOW_COMMENTS && args.status !== "streaming") {
+      console.log("✅ Finished reply:", { messageId: args.messageId, status: args.status });
     }
 
+    await ctx.db.patch(args.messageId, {
+      content: escapeContent(args.content),
+      status: args.status,
+      toolCalls: args.toolCalls.map((call) => ({
+        ...call,
+        offset: escapeContent(args.content.slice(0, call.offset)).length,
+      })),
+      error: args.error,
+    });
+  },
+});
+
+export const getLastMessage = query({
+  args: { chatId: v.id("chats") },
+  handler: async (ctx, args) => {
+    await requireChatAccess(ctx, args.chatId);
+
     const messages = await ctx.db
       .query("messages")
       .withIndex("by_chat", (q) => q.eq("chatId", args.chatId))
@@ -1,11 +1,37 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+export const messageStatus = v.union(
+  v.literal("streaming"),
+  v.literal("complete"),
+  v.literal("aborted"),
+  v.literal("error")
+);
+
+// A tool call made while producing a reply
+export const toolCallRecord = v.object({
+  callId: v.string(),
+  tool: v.string(),
+  input: v.any(),
+  output: v.optional(v.any()),
+  // Structured data some tools return alongside their output
+  artifact: v.optional(v.any()),
+  error: v.optional(v.string()),
+  durationMs: v.optional(v.number()),
+  // Position in the stored content where the call was made
+  offset: v.number(),
+});
+
 export default defineSchema({
   chats: defineTable({
     title: v.string(),
     userId: v.string(),
     createdAt: v.number(),
+    // Registry id of the chat model (lib/models.ts); the default when unset
+    modelId: v.optional(v.string()),
+    // Running summary of the turns that no longer fit the model's context
+    summary: v.optional(v.string()),
+    summaryUpdatedAt: v.optional(v.number()),
   }).index("by_user", ["userId"]),
 
   messages: defineTable({
@@ -13,5 +39,70 @@ export default defineSchema({
     content: v.string(),
     role: v.union(v.literal("user"), v.literal("assistant")),
     createdAt: v.number(),
+    // Assistant replies written by the stream route. Unset on older replies
+    status: v.optional(messageStatus),
+    toolCalls: v.optional(v.array(toolCallRecord)),
+    error: v.optional(v.string()),
+  }).index("by_chat", ["chatId"]),
+
+  // LangGraph checkpoints, one thread per chat. Checkpoint and metadata are
+  // serialized by the checkpointer's serde; `type` records the encoding
+  checkpoints: defineTable({
+    chatId: v.id("chats"),
+    checkpointNs: v.string(),
+    checkpointId: v.string(),
+    parentCheckpointId: v.optional(v.string()),
+    type: v.string(),
+    checkpoint: v.string(),
+    metadata: v.string(),
+    createdAt: v.number(),
+  }).index("by_checkpoint", ["chatId", "checkpointNs", "checkpointId"]),
+
+  // Pending writes of the tasks run from a checkpoint
+  checkpointWrites: defineTable({
+    chatId: v.id("chats"),
+    checkpointNs: v.string(),
+    checkpointId: v.string(),
+    taskId: v.string(),
+    idx: v.number(),
+    channel: v.string(),
+    type: v.string(),
+    value: v.string(),
+  }).index("by_checkpoint", ["chatId", "checkpointNs", "checkpointId"]),
+
+  // Personal keys for the OpenAI-compatible API. Only a SHA-256 hash of each
+  // key is stored; `prefix` is its first characters, to tell keys apart
+  apiKeys: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    keyHash: v.string(),
+    prefix: v.string(),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId"])
+    .index("by_key_hash", ["keyHash"]),
+
+  // Replies being generated by the stream route, shared between server
+  // instances so that any of them can resume or stop a reply
+  streamRuns: defineTable({
+    chatId: v.id("chats"),
+    userId: v.string(),
+    status: v.union(v.literal("running"), v.literal("stopping"), v.literal("finished")),
+    startedAt: v.number(),
+    // Last write by the instance generating the reply
+    updatedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+    // Connections following the run, and when the last of them closed
+    connections: v.number(),
+    disconnectedAt: v.optional(v.number()),
   }).index("by_chat", ["chatId"]),
+
+  // Events of a run in the order they were sent; `message` is the JSON of a
+  // StreamMessage (lib/types.ts)
+  streamEvents: defineTable({
+    runId: v.id("streamRuns"),
+    seq: v.number(),
+    message: v.string(),
+  }).index("by_run", ["runId", "seq"]),
 });
@@ -0,0 +1,130 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const modules = import.meta.glob("./**/!(*.test).ts");
+
+const SERVICE_KEY = "test-service-key";
+const alice = { key: SERVICE_KEY, userId: "alice" };
+
+// A Convex backend with one chat owned by alice
+const setup = async () => {
+  const t = convexTest(schema, modules);
+  const chatId = await t
+    .withIdentity({ subject: "alice" })
+    .mutation(api.chats.createChat, { title: "Alice's chat" });
+  return { t, chatId };
+};
+
+beforeEach(() => {
+  vi.stubEnv("CONVEX_SERVICE_KEY", SERVICE_KEY);
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("streamRuns", () => {
+  it("allows one reply at a time per chat", async () => {
+    const { t, chatId } = await setup();
+    const runId = await t.mutation(api.streamRuns.start, { chatId, service: alice });
+    expect(runId).not.toBeNull();
+    expect(await t.mutation(api.streamRuns.start, { chatId, service: alice })).toBeNull();
+
+    await t.mutation(api.streamRuns.append, { runId: runId!, events: [], finished: true, service: alice });
+    expect(await t.mutation(api.streamRuns.start, { chatId, service: alice })).not.toBeNull();
+  });
+
+  it("lets a new reply replace a run whose instance died", async () => {
+    const { t, chatId } = await setup();
+    const stale = await t.mutation(api.streamRuns.start, { chatId, service: alice });
+    await t.mutation(api.streamRuns.append, {
+      runId: stale!,
+      events: [{ seq: 1, message: "{}" }],
+      service: alice,
+    });
+
+    vi.advanceTimersByTime(31_000);
+    const runId = await t.mutation(api.streamRuns.start, { chatId, service: alice });
+    expect(runId).not.toBeNull();
+    expect(await t.query(api.streamRuns.get, { chatId, service: alice })).toMatchObject({ id: runId, finished: false });
+    await expect(
+      t.query(api.streamRuns.events, { runId: stale!, after: 0, service: alice })
+    ).rejects.toThrow("Unauthorized");
+  });
+
+  it("returns the events after a sequence number", async () => {
+    const { t, chatId } = await setup();
+    const runId = (await t.mutation(api.streamRuns.start, { chatId, service: alice }))!;
+    await t.mutation(api.streamRuns.append, {
+      runId,
+      events: [1, 2, 3].map((seq) => ({ seq, message: JSON.stringify({ seq }) })),
+      service: alice,
+    });
+
+    const { events, finished } = await t.query(api.streamRuns.events, { runId, after: 1, service: alice });
+    expect(events.map(({ seq }) => seq)).toEqual([2, 3]);
+    expect(finished).toBe(false);
+  });
+
+  it("passes a stop request to the generating instance", async () => {
+    const { t, chatId } = await setup();
+    const runId = (await t.mutation(api.streamRuns.start, { chatId, service: alice }))!;
+
+    expect(await t.mutation(api.streamRuns.stop, { chatId, service: alice })).toBe(true);
+    expect(await t.mutation(api.streamRuns.append, { runId, events: [], service: alice })).toMatchObject({
+      stopRequested: true,
+    });
+
+    await t.mutation(api.streamRuns.append, { runId, events: [], finished: true, service: alice });
+    expect(await t.mutation(api.streamRuns.stop, { chatId, service: alice })).toBe(false);
+  });
+
+  it("reports how long nobody has followed the run", async () => {
+    const { t, chatId } = await setup();
+    const runId = (await t.mutation(api.streamRuns.start, { chatId, service: alice }))!;
+    const append = () => t.mutation(api.streamRuns.append, { runId, events: [], service: alice });
+
+    // Two tabs follow the run; one closes
+    await t.mutation(api.streamRuns.connect, { runId, service: alice });
+    await t.mutation(api.streamRuns.connect, { runId, service: alice });
+    await t.mutation(api.streamRuns.disconnect, { runId, service: alice });
+    vi.advanceTimersByTime(5_000);
+    expect(await append()).toMatchObject({ unfollowedFor: 0 });
+
+    await t.mutation(api.streamRuns.disconnect, { runId, service: alice });
+    vi.advanceTimersByTime(5_000);
+    expect(await append()).toMatchObject({ unfollowedFor: 5_000 });
+
+    // A reconnect follows it again
+    await t.mutation(api.streamRuns.connect, { runId, service: alice });
+    expect(await append()).toMatchObject({ unfollowedFor: 0 });
+  });
+
+  it("rejects another user's runs", async () => {
+    const { t, chatId } = await setup();
+    const runId = (await t.mutation(api.streamRuns.start, { chatId, service: alice }))!;
+    const bob = { key: SERVICE_KEY, userId: "bob" };
+
+    await expect(t.mutation(api.streamRuns.start, { chatId, service: bob })).rejects.toThrow("Unauthorized");
+    await expect(t.mutation(api.streamRuns.stop, { chatId, service: bob })).rejects.toThrow("Unauthorized");
+    await expect(t.query(api.streamRuns.events, { runId, after: 0, service: bob })).rejects.toThrow("Unauthorized");
+    await expect(
+      t.mutation(api.streamRuns.append, { runId, events: [], service: bob })
+    ).rejects.toThrow("Unauthorized");
+  });
+
+  it("is deleted with its chat", async () => {
+    const { t, chatId } = await setup();
+    const runId = (await t.mutation(api.streamRuns.start, { chatId, service: alice }))!;
+    await t.mutation(api.streamRuns.append, { runId, events: [{ seq: 1, message: "{}" }], service: alice });
+
+    await t.withIdentity({ subject: "alice" }).mutation(api.chats.deleteChat, { id: chatId });
+    expect(await t.run((ctx) => ctx.db.query("streamEvents").collect())).toHaveLength(0);
+    expect(await t.run((ctx) => ctx.db.query("streamRuns").collect())).toHaveLength(0);
+  });
+});
@@ -0,0 +1,173 @@
+import { v } from "convex/values";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireChatAccess, requireServiceKey, ServiceIdentity, serviceIdentity } from "./lib/auth";
+
+// A run the generating instance has not written to for this long died with
+// it, and no longer blocks a new reply
+const STALE_RUN_MS = 30_000;
+
+// Runs are only used by the stream route, on behalf of the chat's owner
+const requireRun = async (ctx: QueryCtx, runId: Id<"streamRuns">, service: ServiceIdentity) => {
+  requireServiceKey(service.key);
+  const run = await ctx.db.get(runId);
+  if (!run || run.userId !== service.userId) {
+    throw new Error("Unauthorized");
+  }
+  return run;
+};
+
+const runsOf = (ctx: QueryCtx, chatId: Id<"chats">) =>
+  ctx.db.query("streamRuns").withIndex("by_chat", (q) => q.eq("chatId", chatId));
+
+const isActive = (run: Doc<"streamRuns">, now: number) =>
+  run.status !== "finished" && now - run.updatedAt < STALE_RUN_MS;
+
+/**
+ * Deletes a run and its events
+ */
+export const deleteStreamRun = async (ctx: MutationCtx, runId: Id<"streamRuns">) => {
+  const events = await ctx.db
+    .query("streamEvents")
+    .withIndex("by_run", (q) => q.eq("runId", runId))
+    .collect();
+
+  for (const event of events) {
+    await ctx.db.delete(event._id);
+  }
+  await ctx.db.delete(runId);
+};
+
+// Starts a run for a new reply. Returns null while another reply is still
+// being generated for the chat
+export const start = mutation({
+  args: { chatId: v.id("chats"), service: serviceIdentity },
+  handler: async (ctx, args) => {
+    requireServiceKey(args.service.key);
+    await requireChatAccess(ctx, args.chatId, args.service);
+
+    const now = Date.now();
+    const runs = await runsOf(ctx, args.chatId).collect();
+    if (runs.some((run) => isActive(run, now))) return null;
+
+    // Only the latest reply can be resumed
+    for (const run of runs) {
+      await deleteStreamRun(ctx, run._id);
+    }
+
+    return await ctx.db.insert("streamRuns", {
+      chatId: args.chatId,
+      userId: args.service.userId,
+      status: "running",
+      startedAt: now,
+      updatedAt: now,
+      connections: 0,
+    });
+  },
+});
+
+// Adds the events sent since the last call, and tells the generating
+// instance whether the run was stopped or nobody follows it any more
+export const append = mutation({
+  args: {
+    runId: v.id("streamRuns"),
+    events: v.array(v.object({ seq: v.number(), message: v.string() })),
+    finished: v.optional(v.boolean()),
+    service: serviceIdentity,
+  },
+  handler: async (ctx, args) => {
+    const run = await requireRun(ctx, args.runId, args.service);
+
+    for (const event of args.events) {
+      await ctx.db.insert("streamEvents", { runId: args.runId, ...event });
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.runId, {
+      updatedAt: now,
+      ...(args.finished ? { status: "finished" as const, finishedAt: now } : {}),
+    });
+
+    return {
+      stopRequested: run.status === "stopping",
+      // How long the run has had no connection, in milliseconds
+      unfollowedFor:
+        run.connections === 0 && run.disconnectedAt !== undefined ? now - run.disconnectedAt : 0,
+    };
+  },
+});
+
+// Asks the instance generating the chat's reply to stop it. Returns false
+// when no reply is in progress
+export const stop = mutation({
+  args: { chatId: v.id("chats"), service: serviceIdentity },
+  handler: async (ctx, args) => {
+    requireServiceKey(args.service.key);
+    await requireChatAccess(ctx, args.chatId, args.service);
+
+    const run = await runsOf(ctx, args.chatId).order("desc").first();
+    if (!run || !isActive(run, Date.now())) return false;
+
+    await ctx.db.patch(run._id, { status: "stopping" });
+    return true;
+  },
+});
+
+export const connect = mutation({
+  args: { runId: v.id("streamRuns"), service: serviceIdentity },
+  handler: async (ctx, args) => {
+    const run = await requireRun(ctx, args.runId, args.service);
+
+    await ctx.db.patch(args.runId, { connections: run.connections + 1, disconnectedAt: undefined });
+  },
+});
+
+export const disconnect = mutation({
+  args: { runId: v.id("streamRuns"), service: serviceIdentity },
+  handler: async (ctx, args) => {
+    const run = await requireRun(ctx, args.runId, args.service);
+
+    const connections = Math.max(0, run.connections - 1);
+    await ctx.db.patch(args.runId, {
+      connections,
+      disconnectedAt: connections === 0 ? Date.now() : undefined,
+    });
+  },
+});
+
+// The chat's latest run, if any
+export const get = query({
+  args: { chatId: v.id("chats"), service: serviceIdentity },
+  handler: async (ctx, args) => {
+    requireServiceKey(args.service.key);
+    await requireChatAccess(ctx, args.chatId, args.service);
+
+    const run = await runsOf(ctx, args.chatId).order("desc").first();
+    if (!run) return null;
+
+    return {
+      id: run._id,
+      // A stale run will not send anything more
+      finished: !isActive(run, Date.now()),
+      finishedAt: run.finishedAt ?? run.updatedAt,
+    };
+  },
+});
+
+// The events of a run after a sequence number, and whether it has finished
+export const events = query({
+  args: { runId: v.id("streamRuns"), after: v.number(), service: serviceIdentity },
+  handler: async (ctx, args) => {
+    const run = await requireRun(ctx, args.runId, args.service);
+
+    const events = await ctx.db
+      .query("streamEvents")
+      .withIndex("by_run", (q) => q.eq("runId", args.runId).gt("seq", args.after))
+      .collect();
+
+    return {
+      events: events.map(({ seq, message }) => ({ seq, message })),
+      finished: !isActive(run, Date.now()),
+    };
+  },
+});
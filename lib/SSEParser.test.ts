@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import { createSSEParser } from "./SSEParser";
+import { StreamMessageType } from "./types";
+
+const token = (text: string) => JSON.stringify({ type: StreamMessageType.Token, token: text });
+
+describe("createSSEParser", () => {
+  it("reads a CRLF split across two chunks as one line break", () => {
+    const parser = createSSEParser();
+    expect(parser.parse(`id: run:1\r\ndata: ${token("a")}\r`)).toEqual([]);
+    expect(parser.parse(`\n\r\n`)).toEqual([{ type: StreamMessageType.Token, token: "a" }]);
+    expect(parser.getLastEventId()).toBe("run:1");
+  });
+
+  it("does not dispatch an event at a lone CR that only ends a line", () => {
+    const parser = createSSEParser();
+    expect(parser.parse(`data: ${token("a")}\r`)).toEqual([]);
+    expect(parser.parse(`\n`)).toEqual([]);
+    expect(parser.parse(`\n`)).toEqual([{ type: StreamMessageType.Token, token: "a" }]);
+  });
+
+  it("joins multi-line data with line breaks", () => {
+    const parser = createSSEParser();
+    const messages = parser.parse(`data: {"type": "token",\ndata: "token": "a"}\n\n`);
+    expect(messages).toEqual([{ type: StreamMessageType.Token, token: "a" }]);
+  });
+
+  it("ignores an id containing NUL", () => {
+    const parser = createSSEParser();
+    parser.parse(`id: run:1\ndata: ${token("a")}\n\n`);
+    parser.parse(`id: run\0:2\ndata: ${token("b")}\n\n`);
+    expect(parser.getLastEventId()).toBe("run:1");
+  });
+
+  it("ignores a retry that is not a number", () => {
+    const parser = createSSEParser();
+    parser.parse(`retry: 1000\n\n`);
+    parser.parse(`retry: soon\n\nretry: 10s\n\n`);
+    expect(parser.getRetry()).toBe(1000);
+  });
+
+  it("skips heartbeat comments", () => {
+    const parser = createSSEParser();
+    expect(parser.parse(`: heartbeat\n\n`)).toEqual([]);
+    expect(parser.parse(`: heartbeat\ndata: ${token("a")}\n\n`)).toEqual([
+      { type: StreamMessageType.Token, token: "a" },
+    ]);
+  });
+
+  it("decodes characters split across byte chunks", () => {
+    const parser = createSSEParser();
+    const bytes = new TextEncoder().encode(`data: ${token("بسم الله")}\n\n`);
+    const messages = [];
+    for (let i = 0; i < bytes.length; i += 7) {
+      messages.push(...parser.parse(bytes.slice(i, i + 7)));
+    }
+    expect(messages).toEqual([{ type: StreamMessageType.Token, token: "بسم الله" }]);
+  });
+
+  it("types a payload from its event name and reads [DONE]", () => {
+    const parser = createSSEParser();
+    expect(parser.parse(`event: connected\ndata: {}\n\ndata: [DONE]\n\n`)).toEqual([
+      { type: StreamMessageType.Connected },
+      { type: StreamMessageType.Done },
+    ]);
+  });
+
+  it("skips malformed JSON", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const parser = createSSEParser();
+    expect(parser.parse(`data: {oops\n\ndata: ${token("a")}\n\n`)).toEqual([
+      { type: StreamMessageType.Token, token: "a" },
+    ]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
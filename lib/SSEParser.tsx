@@ -1,45 +1,128 @@
 import {
   SSE_DONE_MESSAGE,
   StreamMessageType,
-  SSE_DATA_PREFIX,
   StreamMessage,
 } from "./types";
 
+// Lines end with CRLF, LF or CR
+const LINE_BREAK = /\r\n|\r|\n/;
+
 /**
  * Creates a parser for Server-Sent Events (SSE) streams.
  * SSE allows real-time updates from server to client.
+ *
+ * Follows the event stream format of the HTML spec: multi-line `data`
+ * fields, `event`, `id` and `retry` fields, comments (such as the server's
+ * heartbeats) and any line ending. Chunks may be raw bytes; they are
+ * decoded as one stream, so characters split across chunks survive.
+ * The id of the last event received is kept, so a dropped stream can be
+ * resumed from there with a Last-Event-ID header.
  */
 export const createSSEParser = () => {
+  const decoder = new TextDecoder();
   let buffer = "";
+  let isFirstChunk = true;
+
+  // Fields of the event being read, dispatched at the next blank line
+  let eventType = "";
+  let data = "";
+  let idBuffer: string | undefined;
+
+  let lastEventId: string | undefined;
+  // Reconnection delay requested by the server, in milliseconds
+  let retry: number | undefined;
+
+  const toMessage = (type: string, payload: string): StreamMessage | null => {
+    if (payload === SSE_DONE_MESSAGE) return { type: StreamMessageType.Done };
+
+    let parsed: Partial<StreamMessage>;
+    try {
+      parsed = JSON.parse(payload);
+    } catch (error) {
+      console.warn("Skipping SSE event with malformed JSON:", payload, error);
+      return null;
+    }
+
+    // A named event types the payload when it does not say itself
+    const message = {
+      ...parsed,
+      type: parsed.type ?? (type !== "message" ? type : undefined),
+    } as StreamMessage;
+    if (!Object.values(StreamMessageType).includes(message.type)) {
+      console.warn("Skipping SSE event of unknown type:", message.type);
+      return null;
+    }
+    return message;
+  };
+
+  const dispatch = () => {
+    lastEventId = idBuffer;
+    const type = eventType || "message";
+    const payload = data.endsWith("\n") ? data.slice(0, -1) : data;
+    const hasData = data !== "";
+
+    eventType = "";
+    data = "";
 
-  const parse = (chunk: string): StreamMessage[] => {
-    // Combine buffer with new chunk and split into lines
-    const lines = (buffer + chunk).split("\n");
+    return hasData ? toMessage(type, payload) : null;
+  };
+
+  const processField = (line: string) => {
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        eventType = value;
+        break;
+      case "data":
+        data += `${value}\n`;
+        break;
+      case "id":
+        if (!value.includes("\0")) idBuffer = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) retry = Number(value);
+        break;
+      // Other fields are ignored
+    }
+  };
+
+  const parse = (chunk: string | Uint8Array): StreamMessage[] => {
+    let text = typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    if (isFirstChunk && text) {
+      isFirstChunk = false;
+      // Skip the byte order mark
+      if (text.startsWith("\uFEFF")) text = text.slice(1);
+    }
+
+    const input = buffer + text;
+    const lines = input.split(LINE_BREAK);
     // Save last potentially incomplete line
-    buffer = lines.pop() || "";
-
-    return lines
-      .map((line) => {
-        const trimmed = line.trim();
-        if (!trimmed || !trimmed.startsWith(SSE_DATA_PREFIX)) return null;
-
-        const data = trimmed.substring(SSE_DATA_PREFIX.length);
-        if (data === SSE_DONE_MESSAGE) return { type: StreamMessageType.Done };
-
-        try {
-          const parsed = JSON.parse(data) as StreamMessage;
-          return Object.values(StreamMessageType).includes(parsed.type)
-            ? parsed
-            : null;
-        } catch {
-          return {
-            type: StreamMessageType.Error,
-            error: "Failed to parse SSE message",
-          };
-        }
-      })
-      .filter((msg): msg is StreamMessage => msg !== null);
+    buffer = lines.pop() ?? "";
+    // A trailing CR may be the first half of a CRLF split across chunks
+    if (input.endsWith("\r")) {
+      buffer = `${lines.pop()}\r`;
+    }
+
+    const messages: StreamMessage[] = [];
+    for (const line of lines) {
+      if (line === "") {
+        const message = dispatch();
+        if (message) messages.push(message);
+      } else if (!line.startsWith(":")) {
+        processField(line);
+      }
+      // Lines starting with a colon are comments
+    }
+    return messages;
   };
 
-  return { parse };
+  return {
+    parse,
+    getLastEventId: () => lastEventId,
+    getRetry: () => retry,
+  };
 };
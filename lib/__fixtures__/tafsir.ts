@@ -0,0 +1,8 @@
+import type { TafsirWorkFile } from "../tafsirSource";
+
+// Loaders for the small commentary in __fixtures__/tafsir, written in the
+// format of scripts/import-tafsir.mjs, to pass to createLocalTafsirSource
+export const loadFixtureWork = (work: string): Promise<{ default: TafsirWorkFile }> =>
+  import(`./tafsir/${work}.json`);
+
+export const loadFixtureManifest = async () => (await import("./tafsir/index.json")).default;
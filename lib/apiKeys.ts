@@ -0,0 +1,25 @@
+// Personal API keys for the OpenAI-compatible endpoint (app/api/v1)
+
+// Marks the key as ours, so leaked keys are easy to spot
+export const API_KEY_PREFIX = "hj_";
+
+// Characters kept in Convex to tell a user's keys apart in the dashboard
+const VISIBLE_KEY_LENGTH = API_KEY_PREFIX.length + 6;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/**
+ * Creates a new random key, returned only this once; Convex keeps its hash
+ */
+export const generateApiKey = () => {
+  const key = `${API_KEY_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(32)))}`;
+  return { key, prefix: key.slice(0, VISIBLE_KEY_LENGTH) };
+};
+
+/**
+ * Returns the SHA-256 hash under which a key is stored. The keys are long
+ * and random, so a fast unsalted hash is enough to look them up safely
+ */
+export const hashApiKey = async (key: string) =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key)));
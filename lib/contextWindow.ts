@@ -0,0 +1,175 @@
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { getEncoding } from "@langchain/core/utils/tiktoken";
+
+// Tokens of conversation history sent to the model, not counting the system
+// prompt and tool definitions
+export const CONTEXT_TOKEN_BUDGET = Number(process.env.CHAT_CONTEXT_TOKENS) || 3000;
+
+// Share of the budget kept verbatim when older turns are summarized
+const RECENT_SHARE = 0.5;
+
+// Role and separator tokens added around each message
+const MESSAGE_OVERHEAD = 4;
+
+// Tool results are cut to this length in the transcript sent to the summarizer
+const MAX_TOOL_RESULT_CHARS = 1500;
+
+type Encoding = Parameters<typeof getEncoding>[0];
+type Encoder = Awaited<ReturnType<typeof getEncoding>>;
+
+// GPT-4o and later OpenAI models use o200k; cl100k is a close estimate for
+// the rest, including Llama 3 and Claude
+const encodingFor = (modelName: string): Encoding =>
+  /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(modelName) ? "o200k_base" : "cl100k_base";
+
+const encoders = new Map<Encoding, Promise<Encoder | null>>();
+
+const getEncoder = (modelName: string) => {
+  const encoding = encodingFor(modelName);
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    // The ranks are downloaded once; count characters if that fails
+    encoder = getEncoding(encoding).catch((error) => {
+      console.warn(`Tokenizer ${encoding} unavailable, approximating token counts:`, error);
+      return null;
+    });
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+};
+
+const contentText = (message: BaseMessage) =>
+  typeof message.content === "string"
+    ? message.content
+    : message.content
+        .map((part) => (typeof part === "string" ? part : part.type === "text" ? part.text : ""))
+        .join("");
+
+const messageText = (message: BaseMessage) => {
+  const toolCalls = message instanceof AIMessage ? message.tool_calls ?? [] : [];
+  return toolCalls.length
+    ? `${contentText(message)}${JSON.stringify(toolCalls.map(({ name, args }) => ({ name, args })))}`
+    : contentText(message);
+};
+
+/**
+ * Counts the tokens of messages with the tokenizer of the given model,
+ * including tool calls
+ */
+export const countTokens = async (modelName: string, messages: BaseMessage[]) => {
+  const encoder = await getEncoder(modelName);
+  return messages.reduce((total, message) => {
+    const text = messageText(message);
+    const tokens = encoder ? encoder.encode(text, "all").length : Math.ceil(text.length / 4);
+    return total + MESSAGE_OVERHEAD + tokens;
+  }, 0);
+};
+
+/**
+ * Splits a conversation into older messages to fold into the summary and
+ * recent ones to keep verbatim. Nothing is split off while the whole
+ * conversation fits the budget. Recent messages always start on a user
+ * turn, so tool calls stay with their results.
+ */
+export const splitHistory = async (
+  modelName: string,
+  messages: BaseMessage[],
+  budget = CONTEXT_TOKEN_BUDGET
+) => {
+  if ((await countTokens(modelName, messages)) <= budget) {
+    return { older: [], recent: messages };
+  }
+
+  // Fill the recent share of the budget from the end
+  let start = messages.length;
+  let used = 0;
+  while (start > 0) {
+    const tokens = await countTokens(modelName, [messages[start - 1]]);
+    if (used + tokens > budget * RECENT_SHARE) break;
+    used += tokens;
+    start--;
+  }
+
+  // Move to the next user turn, or back to the last one if the final turn
+  // alone is over the recent share
+  let boundary = messages.findIndex((message, i) => i >= start && message instanceof HumanMessage);
+  if (boundary === -1) {
+    for (boundary = messages.length - 1; boundary > 0; boundary--) {
+      if (messages[boundary] instanceof HumanMessage) break;
+    }
+  }
+
+  return { older: messages.slice(0, Math.max(boundary, 0)), recent: messages.slice(Math.max(boundary, 0)) };
+};
+
+const toTranscript = (messages: BaseMessage[]) =>
+  messages
+    .flatMap((message) => {
+      const text = contentText(message).trim();
+      switch (message.getType()) {
+        case "human":
+          return [`User: ${text}`];
+        case "ai": {
+          const tools = (message as AIMessage).tool_calls?.map(({ name, args }) => `${name}(${JSON.stringify(args)})`);
+          return [`Assistant: ${text}${tools?.length ? ` [called ${tools.join(", ")}]` : ""}`];
+        }
+        case "tool":
+          return [
+            `Tool result (${message.name ?? "tool"}): ${
+              text.length > MAX_TOOL_RESULT_CHARS ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}…` : text
+            }`,
+          ];
+        default:
+          return [];
+      }
+    })
+    .join("\n\n");
+
+const SUMMARY_INSTRUCTIONS = `You maintain a running summary of a conversation between a user and Halal Jarvis, an Islamic knowledge assistant. Update the summary with the new messages.
+
+Keep the user's questions and circumstances, the answers given, and every Quran or hadith reference cited (surah:ayah, collection and number), so that follow-up questions can refer back to them. Drop pleasantries and repeated details.
+
+Write concise prose of no more than 300 words and reply with the summary only.`;
+
+/**
+ * Folds messages into a running summary, in chunks that fit the budget
+ */
+export const summarizeMessages = async (
+  model: BaseChatModel,
+  modelName: string,
+  previousSummary: string,
+  messages: BaseMessage[],
+  budget = CONTEXT_TOKEN_BUDGET
+) => {
+  let summary = previousSummary;
+  let chunk: BaseMessage[] = [];
+
+  const fold = async () => {
+    if (!chunk.length) return;
+    const response = await model.invoke(
+      [
+        new SystemMessage(SUMMARY_INSTRUCTIONS),
+        new HumanMessage(`Current summary:\n${summary || "(none)"}\n\nNew messages:\n${toTranscript(chunk)}`),
+      ],
+      { tags: ["summary"] }
+    );
+    summary = contentText(response).trim();
+    chunk = [];
+  };
+
+  for (const message of messages) {
+    if (chunk.length && (await countTokens(modelName, [...chunk, message])) > budget) {
+      await fold();
+    }
+    chunk.push(message);
+  }
+  await fold();
+
+  return summary;
+};
@@ -1,4 +1,5 @@
 import { ConvexHttpClient } from "convex/browser";
+import type { ServiceIdentity } from "@/convex/lib/auth";
 
 // Cache the client instance
 let cachedClient: ConvexHttpClient | null = null;
@@ -26,3 +27,26 @@ export const getConvexClient = () => {
     throw new Error("Failed to initialize Convex client");
   }
 };
+
+/**
+ * Returns the key the server proves itself to Convex with. Convex checks it
+ * against its own CONVEX_SERVICE_KEY.
+ */
+export const getServiceKey = () => {
+  const key = process.env.CONVEX_SERVICE_KEY;
+  if (!key) {
+    console.error("Convex service key is not defined in environment variables");
+    throw new Error("Convex service key is not configured");
+  }
+  return key;
+};
+
+/**
+ * Returns the service identity for server-side Convex calls made on behalf
+ * of a user already authenticated with Clerk. Convex scopes the call to
+ * that user's chats.
+ */
+export const getServiceIdentity = (userId: string): ServiceIdentity => ({
+  key: getServiceKey(),
+  userId,
+});
@@ -0,0 +1,174 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointMetadata,
+  CheckpointTuple,
+  copyCheckpoint,
+} from "@langchain/langgraph";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import type { ServiceIdentity } from "@/convex/lib/auth";
+
+type CheckpointListOptions = Parameters<BaseCheckpointSaver["list"]>[1];
+type PendingWrite = Parameters<BaseCheckpointSaver["putWrites"]>[1][number];
+
+// Special writes are stored at fixed negative indices so they never clash
+// with regular writes (WRITES_IDX_MAP in @langchain/langgraph-checkpoint)
+const SPECIAL_WRITE_INDICES: Record<string, number> = {
+  __error__: -1,
+  __scheduled__: -2,
+  __interrupt__: -3,
+  __resume__: -4,
+};
+
+interface StoredCheckpoint {
+  checkpoint: Doc<"checkpoints">;
+  writes: Doc<"checkpointWrites">[];
+  pendingSends: Doc<"checkpointWrites">[];
+}
+
+const threadOf = (config: RunnableConfig) => {
+  const chatId = config.configurable?.thread_id as Id<"chats"> | undefined;
+  if (!chatId) {
+    throw new Error('The RunnableConfig is missing a "thread_id" in its "configurable" property.');
+  }
+  return {
+    chatId,
+    checkpointNs: (config.configurable?.checkpoint_ns as string | undefined) ?? "",
+    checkpointId: config.configurable?.checkpoint_id as string | undefined,
+  };
+};
+
+/**
+ * LangGraph checkpointer that keeps the state of each chat's thread in the
+ * Convex `checkpoints` and `checkpointWrites` tables. The chat id is the
+ * thread id, so a thread survives across requests and server instances.
+ * Calls are made with a service identity scoped to the chat's owner.
+ */
+export class ConvexCheckpointer extends BaseCheckpointSaver {
+  constructor(private convex: ConvexHttpClient, private service: ServiceIdentity) {
+    super();
+  }
+
+  // Serialized values are stored as strings; "bytes" values round-trip
+  // through loadsTyped, which accepts strings for both encodings
+  private dump(value: unknown) {
+    const [type, data] = this.serde.dumpsTyped(value);
+    return { type, value: new TextDecoder().decode(data) };
+  }
+
+  private async toTuple({ checkpoint, writes, pendingSends }: StoredCheckpoint): Promise<CheckpointTuple> {
+    const { chatId, checkpointNs, checkpointId, parentCheckpointId } = checkpoint;
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: { thread_id: chatId, checkpoint_ns: checkpointNs, checkpoint_id: checkpointId },
+      },
+      checkpoint: {
+        ...(await this.serde.loadsTyped(checkpoint.type, checkpoint.checkpoint)),
+        pending_sends: await Promise.all(
+          pendingSends.map(({ type, value }) => this.serde.loadsTyped(type, value))
+        ),
+      },
+      metadata: await this.serde.loadsTyped("json", checkpoint.metadata),
+      pendingWrites: await Promise.all(
+        writes.map(async ({ taskId, channel, type, value }) =>
+          [taskId, channel, await this.serde.loadsTyped(type, value)] as [string, string, unknown]
+        )
+      ),
+    };
+
+    if (parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: { thread_id: chatId, checkpoint_ns: checkpointNs, checkpoint_id: parentCheckpointId },
+      };
+    }
+    return tuple;
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const { chatId, checkpointNs, checkpointId } = threadOf(config);
+    const stored = await this.convex.query(api.checkpoints.get, {
+      chatId,
+      checkpointNs,
+      checkpointId,
+      service: this.service,
+    });
+    return stored ? this.toTuple(stored) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options ?? {};
+    const { chatId, checkpointId } = threadOf(config);
+
+    const stored = await this.convex.query(api.checkpoints.list, {
+      chatId,
+      checkpointNs: config.configurable?.checkpoint_ns as string | undefined,
+      before: before?.configurable?.checkpoint_id as string | undefined,
+      // Metadata filters are applied here, so only limit unfiltered lists
+      limit: filter ? undefined : limit,
+      service: this.service,
+    });
+
+    let remaining = limit ?? Infinity;
+    for (const entry of stored) {
+      if (remaining <= 0) break;
+      if (checkpointId && entry.checkpoint.checkpointId !== checkpointId) continue;
+
+      const tuple = await this.toTuple(entry);
+      const metadata = (tuple.metadata ?? {}) as Record<string, unknown>;
+      if (filter && !Object.entries(filter).every(([key, value]) => metadata[key] === value)) {
+        continue;
+      }
+
+      remaining--;
+      yield tuple;
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const { chatId, checkpointNs, checkpointId: parentCheckpointId } = threadOf(config);
+
+    // Pending sends are rebuilt from the parent's writes when loading
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+
+    const serialized = this.dump(prepared);
+    await this.convex.mutation(api.checkpoints.put, {
+      chatId,
+      checkpointNs,
+      checkpointId: checkpoint.id,
+      parentCheckpointId,
+      type: serialized.type,
+      checkpoint: serialized.value,
+      metadata: this.dump(metadata).value,
+      service: this.service,
+    });
+
+    return {
+      configurable: { thread_id: chatId, checkpoint_ns: checkpointNs, checkpoint_id: checkpoint.id },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const { chatId, checkpointNs, checkpointId } = threadOf(config);
+    if (!checkpointId) {
+      throw new Error('The RunnableConfig is missing a "checkpoint_id" in its "configurable" property.');
+    }
+
+    await this.convex.mutation(api.checkpoints.putWrites, {
+      chatId,
+      checkpointNs,
+      checkpointId,
+      taskId,
+      writes: writes.map(([channel, value], idx) => ({
+        idx: SPECIAL_WRITE_INDICES[channel] ?? idx,
+        channel,
+        ...this.dump(value),
+      })),
+      service: this.service,
+    });
+  }
+}
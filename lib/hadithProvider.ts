@@ -0,0 +1,372 @@
+import { createSearchIndex } from "./textSearch";
+
+export interface HadithSection {
+  number: string;
+  title: string;
+}
+
+export interface HadithGrading {
+  grade: string;
+  gradedBy?: string;
+}
+
+export interface Hadith {
+  collection: string;
+  collectionName: string;
+  number: string;
+  book?: HadithSection;
+  chapter?: HadithSection;
+  // Position within the book, e.g. "Book 2, Hadith 1"
+  inBookReference?: string;
+  // Isnad summary: the companion the report is narrated from
+  narrator?: string;
+  arabic: string;
+  translation: string;
+  grades: HadithGrading[];
+}
+
+// A hadith as returned by the hadith tools
+export interface HadithResult extends Hadith {
+  citation: string;
+}
+
+export interface HadithCollection {
+  id: string;
+  name: string;
+}
+
+export interface HadithSearchOptions {
+  collection?: string;
+  limit: number;
+}
+
+/**
+ * A backend that can look up and search hadith collections.
+ */
+export interface HadithProvider {
+  // The collections this backend can serve
+  listCollections(): Promise<HadithCollection[]>;
+  // `signal` cancels any request still in flight when the caller gives up
+  getHadith(collection: string, number: string, signal?: AbortSignal): Promise<Hadith | null>;
+  search(query: string, options: HadithSearchOptions, signal?: AbortSignal): Promise<Hadith[]>;
+}
+
+// Shape of the collection dumps written by scripts/import-hadith.mjs
+export interface HadithCollectionFile {
+  collection: string;
+  name: string;
+  hadiths: Omit<Hadith, "collection" | "collectionName">[];
+}
+
+interface HadithManifest {
+  collections: string[];
+}
+
+type CollectionLoader = (
+  collection: string
+) => Promise<{ default: HadithCollectionFile }>;
+
+const loadBundledCollection: CollectionLoader = (collection) =>
+  import(`../data/hadith/${collection}.json`);
+
+const loadBundledManifest = async (): Promise<HadithManifest> =>
+  (await import("../data/hadith/index.json")).default;
+
+// Display names for the canonical collections
+export const HADITH_COLLECTIONS: Record<string, string> = {
+  bukhari: "Sahih al-Bukhari",
+  muslim: "Sahih Muslim",
+  abudawud: "Sunan Abi Dawud",
+  tirmidhi: "Jami` at-Tirmidhi",
+  nasai: "Sunan an-Nasa'i",
+  ibnmajah: "Sunan Ibn Majah",
+};
+
+const SUNNAH_API_URL = "https://api.sunnah.com/v1";
+
+interface SunnahHadithResponse {
+  collection: string;
+  bookNumber: string;
+  hadithNumber: string;
+  hadith: {
+    lang: string;
+    chapterNumber: string;
+    chapterTitle: string;
+    body: string;
+    grades: { graded_by: string | null; grade: string }[];
+  }[];
+}
+
+interface SunnahBookResponse {
+  book: { lang: string; name: string }[];
+}
+
+interface SunnahSearchResponse {
+  data: {
+    collection: string;
+    hadithNumber: string;
+    translation: string;
+  }[];
+}
+
+// Collection names and hadith numbers are matched case-insensitively
+const normalizeKey = (value: string) => value.toLowerCase().trim();
+
+const stripTags = (text: string) => text.replace(/<[^>]*>/g, "").trim();
+
+// English translations open with "Narrated <companion>:"
+const extractNarrator = (translation: string) =>
+  translation.match(/^\s*Narrated\s+([^:]{2,80}):/i)?.[1].trim();
+
+/**
+ * Builds a citation such as "Sahih al-Bukhari, Book of Belief, 8 (graded sahih)"
+ */
+export const formatHadithCitation = (hadith: Hadith) => {
+  const parts = [hadith.collectionName];
+  if (hadith.book?.title) {
+    parts.push(
+      /^book\b/i.test(hadith.book.title)
+        ? hadith.book.title
+        : `Book of ${hadith.book.title}`
+    );
+  }
+  parts.push(hadith.number);
+
+  const [grading] = hadith.grades;
+  const grade = grading
+    ? ` (graded ${grading.grade.toLowerCase()}${grading.gradedBy ? ` by ${grading.gradedBy}` : ""})`
+    : "";
+
+  return `${parts.join(", ")}${grade}`;
+};
+
+/**
+ * Hadith provider backed by the Sunnah.com API.
+ * Requires SUNNAH_API_KEY to be set in the environment.
+ */
+export const createSunnahHadithProvider = (
+  apiKey: string | undefined = process.env.SUNNAH_API_KEY,
+  baseUrl: string = SUNNAH_API_URL
+): HadithProvider => {
+  const request = async (path: string, signal?: AbortSignal) => {
+    if (!apiKey) {
+      throw new Error("Sunnah.com API key is not configured");
+    }
+
+    return fetch(`${baseUrl}${path}`, {
+      headers: {
+        "Content-Type": "application/json",
+        "X-API-Key": apiKey,
+      },
+      signal,
+    });
+  };
+
+  const listCollections = async () =>
+    Object.entries(HADITH_COLLECTIONS).map(([id, name]) => ({ id, name }));
+
+  const bookTitles = new Map<string, Promise<string | undefined>>();
+
+  const getBookTitle = (collection: string, bookNumber: string) => {
+    const key = `${collection}/${bookNumber}`;
+    let title = bookTitles.get(key);
+    if (!title) {
+      title = request(`/collections/${collection}/books/${bookNumber}`)
+        .then(async (response) => {
+          if (!response.ok) return undefined;
+          const data = (await response.json()) as SunnahBookResponse;
+          return data.book?.find((book) => book.lang === "en")?.name;
+        })
+        .catch(() => undefined);
+      bookTitles.set(key, title);
+    }
+    return title;
+  };
+
+  const getHadith = async (collection: string, number: string, signal?: AbortSignal) => {
+    const normalized = normalizeKey(collection);
+    const response = await request(
+      `/collections/${normalized}/hadiths/${encodeURIComponent(number)}`,
+      signal
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch hadith: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as SunnahHadithResponse;
+    const english = data.hadith?.find((entry) => entry.lang === "en");
+    const arabic = data.hadith?.find((entry) => entry.lang === "ar");
+    if (!english && !arabic) return null;
+
+    const translation = stripTags(english?.body || "");
+    const bookTitle = data.bookNumber
+      ? await getBookTitle(normalized, data.bookNumber)
+      : undefined;
+    const chapter = english || arabic;
+
+    return {
+      collection: normalized,
+      collectionName: HADITH_COLLECTIONS[normalized] || collection,
+      number: data.hadithNumber || number,
+      book: data.bookNumber
+        ? { number: data.bookNumber, title: bookTitle || "" }
+        : undefined,
+      chapter: chapter?.chapterNumber
+        ? { number: chapter.chapterNumber, title: stripTags(chapter.chapterTitle || "") }
+        : undefined,
+      narrator: extractNarrator(translation),
+      arabic: stripTags(arabic?.body || ""),
+      translation,
+      grades: [...(english?.grades || []), ...(arabic?.grades || [])].map(
+        (grading) => ({
+          grade: grading.grade,
+          gradedBy: grading.graded_by || undefined,
+        })
+      ),
+    };
+  };
+
+  const search = async (
+    query: string,
+    { collection, limit }: HadithSearchOptions,
+    signal?: AbortSignal
+  ) => {
+    // Build the URL based on whether a specific collection is specified
+    let path = `/hadiths/search?q=${encodeURIComponent(query)}&limit=${limit}`;
+    if (collection) {
+      path += `&collection=${normalizeKey(collection)}`;
+    }
+
+    const response = await request(path, signal);
+
+    if (!response.ok) {
+      throw new Error(`Failed to search hadiths: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as SunnahSearchResponse;
+
+    return (data.data || []).map((result) => ({
+      collection: result.collection,
+      collectionName: HADITH_COLLECTIONS[result.collection] || result.collection,
+      number: result.hadithNumber,
+      narrator: extractNarrator(result.translation),
+      arabic: "",
+      translation: stripTags(result.translation),
+      grades: [],
+    }));
+  };
+
+  return { listCollections, getHadith, search };
+};
+
+/**
+ * Hadith provider backed by collection dumps imported into data/hadith.
+ * Each collection is loaded and indexed by number on first use; the
+ * keyword index spans every collection listed in the manifest.
+ */
+export const createLocalHadithProvider = (
+  loadCollection: CollectionLoader = loadBundledCollection,
+  loadManifest: () => Promise<HadithManifest> = loadBundledManifest
+): HadithProvider => {
+  const collections = new Map<string, Promise<Map<string, Hadith>>>();
+  let searchIndex: Promise<ReturnType<typeof createSearchIndex<Hadith>>> | null =
+    null;
+
+  const getCollection = async (collection: string) => {
+    const { collections: available } = await loadManifest();
+    if (!available.includes(collection)) {
+      throw new Error(
+        `Collection '${collection}' has not been imported (available: ${available.join(", ")})`
+      );
+    }
+
+    let byNumber = collections.get(collection);
+    if (!byNumber) {
+      byNumber = loadCollection(collection).then(({ default: file }) => {
+        const hadiths = new Map<string, Hadith>();
+        for (const hadith of file.hadiths) {
+          hadiths.set(normalizeKey(hadith.number), {
+            ...hadith,
+            collection,
+            collectionName: file.name,
+            narrator: hadith.narrator || extractNarrator(hadith.translation),
+            grades: hadith.grades,
+          });
+        }
+        return hadiths;
+      });
+      collections.set(collection, byNumber);
+    }
+    return byNumber;
+  };
+
+  const listCollections = async () => {
+    const { collections: available } = await loadManifest();
+    return Promise.all(
+      available.map(async (id) => ({ id, name: (await loadCollection(id)).default.name }))
+    );
+  };
+
+  const getHadith = async (collection: string, number: string) => {
+    const hadiths = await getCollection(normalizeKey(collection));
+    return hadiths.get(normalizeKey(number)) || null;
+  };
+
+  const getSearchIndex = () => {
+    if (!searchIndex) {
+      searchIndex = loadManifest().then(async ({ collections: available }) => {
+        const all = await Promise.all(available.map(getCollection));
+        const hadiths = all.flatMap((byNumber) => [...byNumber.values()]);
+        return createSearchIndex(
+          hadiths,
+          (hadith) => `${hadith.arabic} ${hadith.translation}`
+        );
+      });
+    }
+    return searchIndex;
+  };
+
+  const search = async (
+    query: string,
+    { collection, limit }: HadithSearchOptions
+  ) => {
+    const index = await getSearchIndex();
+    const filter = collection
+      ? (hadith: Hadith) => hadith.collection === normalizeKey(collection)
+      : undefined;
+
+    return index.search(query, limit, filter);
+  };
+
+  return { listCollections, getHadith, search };
+};
+
+// Cache the provider instance
+let cachedProvider: HadithProvider | null = null;
+
+/**
+ * Returns the hadith provider selected by HADITH_PROVIDER
+ * ("sunnah" or "local", default "sunnah").
+ */
+export const getHadithProvider = () => {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const backend = process.env.HADITH_PROVIDER || "sunnah";
+
+  switch (backend) {
+    case "sunnah":
+      cachedProvider = createSunnahHadithProvider();
+      break;
+    case "local":
+      cachedProvider = createLocalHadithProvider();
+      break;
+    default:
+      throw new Error(`Unknown HADITH_PROVIDER: ${backend}`);
+  }
+
+  return cachedProvider;
+};
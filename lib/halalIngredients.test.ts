@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { checkIngredients, splitIngredients } from "./halalIngredients";
+
+// Verdict and matched codes of a single ingredient
+const check = async (ingredient: string) => {
+  const [verdict] = (await checkIngredients(ingredient)).verdicts;
+  return { status: verdict.status, codes: verdict.matches.map(({ code, status }) => `${code}:${status}`) };
+};
+
+describe("splitIngredients", () => {
+  it("keeps bracketed details with their ingredient", () => {
+    expect(splitIngredients("Ingredients: sugar, emulsifiers (E471, soy lecithin); salt.")).toEqual([
+      "sugar",
+      "emulsifiers (E471, soy lecithin)",
+      "salt",
+    ]);
+  });
+});
+
+describe("checkIngredients", () => {
+  it("reads E-numbers written in any form", async () => {
+    for (const ingredient of ["E471", "e-471", "INS 471", "emulsifier (471)", "emulsifier: 471"]) {
+      expect(await check(ingredient)).toEqual({ status: "source-dependent", codes: ["E471:source-dependent"] });
+    }
+  });
+
+  it("does not read percentages as E-numbers", async () => {
+    expect((await check("sugar 100%")).codes).not.toContain("E100:halal");
+  });
+
+  it("settles the source only for the part that declares it", async () => {
+    expect(await check("emulsifiers (E471, soy lecithin)")).toEqual({
+      status: "source-dependent",
+      codes: ["E471:source-dependent", "E322:halal"],
+    });
+  });
+
+  it("settles the source declared in the head or a bare bracket", async () => {
+    expect((await check("vegetable emulsifiers (E471)")).status).toBe("halal");
+    expect((await check("E471 (plant origin)")).status).toBe("halal");
+  });
+
+  it("does not read a negated source as declaring one", async () => {
+    expect(await check("gelatin (non-halal)")).toEqual({ status: "source-dependent", codes: ["E441:source-dependent"] });
+    expect(await check("E471 (non-vegetable fat)")).toEqual({
+      status: "source-dependent",
+      codes: ["E471:source-dependent"],
+    });
+    expect((await check("non-vegetable fat")).status).toBe("unknown");
+    expect((await check("shortening (not vegetable)")).status).toBe("source-dependent");
+    expect((await check("E471 (non-animal)")).status).toBe("halal");
+  });
+
+  it("reports an E-number named twice once", async () => {
+    expect(await check("L-cysteine (E920)")).toEqual({ status: "source-dependent", codes: ["E920:source-dependent"] });
+  });
+
+  it("rates the list by its worst ingredient", async () => {
+    const report = await checkIngredients("sugar, lard, colour (E120)");
+    expect(report.overall).toBe("haram");
+  });
+});
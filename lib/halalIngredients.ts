@@ -0,0 +1,210 @@
+/**
+ * Checks food ingredient lists against the bundled database of E-numbers
+ * and ingredients in data/ingredients.json. Add or correct entries there;
+ * names are matched case-insensitively with punctuation ignored.
+ */
+
+export type IngredientStatus = "halal" | "haram" | "mashbooh" | "source-dependent";
+
+export interface IngredientEntry {
+  // E-number, e.g. "E471"
+  code?: string;
+  names: string[];
+  status: IngredientStatus;
+  reason: string;
+}
+
+export interface IngredientMatch {
+  name: string;
+  code?: string;
+  status: IngredientStatus;
+  reason: string;
+}
+
+export interface IngredientVerdict {
+  ingredient: string;
+  // "unknown" when nothing in the database matched
+  status: IngredientStatus | "unknown";
+  matches: IngredientMatch[];
+}
+
+export interface IngredientReport {
+  verdicts: IngredientVerdict[];
+  overall: IngredientStatus | "unknown";
+}
+
+// Worst status first
+const SEVERITY: (IngredientStatus | "unknown")[] = [
+  "haram",
+  "mashbooh",
+  "source-dependent",
+  "unknown",
+  "halal",
+];
+
+// Words on a label that settle the source of a source-dependent ingredient.
+// Negated ones such as "non-halal" or "not vegetable" declare nothing
+const HALAL_SOURCE =
+  /(?<!\b(?:non|not|no) )\b(halal|vegetable|plant|plant based|soy|soya|sunflower|palm|rapeseed|non animal|vegan|microbial|synthetic|fish)\b/;
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// "E 471", "e-471" and "INS 471" all become "e471"; a bare "471" counts
+// only when it stands alone or after a label, e.g. "emulsifier (471)" or
+// "emulsifier: 471"
+const E_NUMBER = /\b(?:e|ins) ?(\d{3,4}) ?([a-f])?\b/g;
+const BARE_NUMBER = /^(\d{3,4}) ?([a-f])?$/;
+const LABEL = /^\s*[a-z][a-z\s-]*:/i;
+
+// Text ending in a negation, e.g. before "vegetable fat" in "non-vegetable fat"
+const NEGATED = /\b(?:non|not|no)$/;
+
+interface IngredientIndex {
+  byCode: Map<string, IngredientEntry>;
+  byName: [string, IngredientEntry][];
+}
+
+let indexPromise: Promise<IngredientIndex> | null = null;
+
+const loadIndex = () => {
+  if (!indexPromise) {
+    indexPromise = import("../data/ingredients.json").then((module) => {
+      const entries = module.default.ingredients as IngredientEntry[];
+      const byCode = new Map<string, IngredientEntry>();
+      const byName: [string, IngredientEntry][] = [];
+
+      for (const entry of entries) {
+        if (entry.code) byCode.set(entry.code.toLowerCase(), entry);
+        for (const name of entry.names) byName.push([normalize(name), entry]);
+      }
+
+      // Longest names first so "fish gelatin" wins over "gelatin"
+      byName.sort((a, b) => b[0].length - a[0].length);
+      return { byCode, byName };
+    });
+  }
+  return indexPromise;
+};
+
+/**
+ * Splits an ingredient list at top-level commas and semicolons, keeping
+ * bracketed details with their ingredient, e.g.
+ * "emulsifiers (E471, soy lecithin)" stays one ingredient
+ */
+export const splitIngredients = (list: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of list.replace(/^\s*ingredients?\s*:/i, "")) {
+    if ("([{".includes(char)) depth++;
+    if (")]}".includes(char)) depth = Math.max(0, depth - 1);
+    if (depth === 0 && /[,;\n•]/.test(char)) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items
+    .map((item) => item.replace(/\s+/g, " ").replace(/\.$/, "").trim())
+    .filter(Boolean);
+};
+
+const worst = <T extends IngredientStatus | "unknown">(statuses: T[]) =>
+  SEVERITY.find((status) => statuses.includes(status as T)) as T | undefined;
+
+const matchText = (text: string, index: IngredientIndex): IngredientMatch[] => {
+  const matches: IngredientMatch[] = [];
+  // Drop percentages so "sugar 100%" is not read as E100
+  const cleaned = text.replace(/\d+(?:[.,]\d+)?\s*%/g, " ");
+  const label = cleaned.match(LABEL)?.[0] ?? "";
+  const bare = normalize(cleaned.slice(label.length)).match(BARE_NUMBER);
+  const normalized = normalize(cleaned);
+  const numbers = bare ? [bare] : [...normalized.matchAll(E_NUMBER)];
+  let remaining = ` ${bare ? normalize(label) : normalized.replace(E_NUMBER, " ")} `;
+
+  for (const [, number, suffix] of numbers) {
+    const entry =
+      index.byCode.get(`e${number}${suffix ?? ""}`) ??
+      index.byCode.get(`e${number}`) ??
+      [...index.byCode.entries()].find(([code]) => code.startsWith(`e${number}`) && /[a-f]$/.test(code))?.[1];
+    if (entry) {
+      matches.push({ name: entry.names[0], code: entry.code, status: entry.status, reason: entry.reason });
+    }
+  }
+
+  // Consume each matched name so shorter names inside it do not match again.
+  // A negated name, e.g. "non-vegetable fat", is consumed but names nothing
+  for (const [name, entry] of index.byName) {
+    const pattern = ` ${name} `;
+    if (remaining.includes(pattern)) {
+      const around = remaining.split(pattern);
+      remaining = around.join("  ");
+      const affirmed = around.slice(0, -1).some((before) => !NEGATED.test(before));
+      if (affirmed && !matches.some((match) => match.code && match.code === entry.code)) {
+        matches.push({ name, code: entry.code, status: entry.status, reason: entry.reason });
+      }
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * Checks a free-form ingredient list and returns a verdict per ingredient
+ * plus an overall status (the worst of the individual verdicts)
+ */
+export const checkIngredients = async (list: string): Promise<IngredientReport> => {
+  const index = await loadIndex();
+
+  const verdicts = splitIngredients(list).map((ingredient): IngredientVerdict => {
+    // Bracketed details such as "emulsifier (E471, 472e)" may list several
+    // ingredients or E-numbers, so match them one by one
+    const details = [...ingredient.matchAll(/[([{]([^)\]}]*)[)\]}]/g)]
+      .flatMap(([, inner]) => inner.split(/[,;]/))
+      .map((part) => ({ part, matches: matchText(part, index) }));
+    const head = ingredient.replace(/[([{][^)\]}]*[)\]}]/g, " ");
+
+    // A declared halal or plant source settles source-dependent ingredients,
+    // but only those it describes: its own part, or everything in brackets
+    // when it qualifies the head. Bracketed words that name no ingredient,
+    // e.g. "E471 (vegetable origin)", qualify the head
+    const hasSource = (part: string) => HALAL_SOURCE.test(normalize(part));
+    const headHasSource =
+      hasSource(head) || details.some(({ part, matches }) => !matches.length && hasSource(part));
+    const settle = (matches: IngredientMatch[], declared: boolean) =>
+      declared
+        ? matches.map((match): IngredientMatch =>
+            match.status === "source-dependent"
+              ? { ...match, status: "halal", reason: `${match.reason} The label declares a halal or non-animal source.` }
+              : match
+          )
+        : matches;
+
+    // The same E-number may be named both ways, e.g. "L-cysteine (E920)"
+    const matches = [
+      ...settle(matchText(head, index), headHasSource),
+      ...details.flatMap(({ part, matches }) => settle(matches, headHasSource || hasSource(part))),
+    ].filter((match, position, all) => !match.code || all.findIndex(({ code }) => code === match.code) === position);
+
+    return {
+      ingredient,
+      status: worst(matches.map(({ status }) => status)) ?? "unknown",
+      matches,
+    };
+  });
+
+  return {
+    verdicts,
+    overall: worst(verdicts.map(({ status }) => status)) ?? "unknown",
+  };
+};
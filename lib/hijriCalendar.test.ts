@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatGregorian,
+  formatHijri,
+  HijriCalendarType,
+  listGregorianYearEvents,
+  parseGregorian,
+  parseHijri,
+  toGregorian,
+  toHijri,
+} from "./hijriCalendar";
+
+const hijriOf = (date: string, calendar?: HijriCalendarType, adjustment?: number) =>
+  toHijri(parseGregorian(date), calendar, adjustment);
+
+describe("toHijri", () => {
+  it("follows the Umm al-Qura calendar announced in Saudi Arabia", () => {
+    expect(hijriOf("2024-03-11")).toEqual({ year: 1445, month: 9, day: 1 });
+    expect(hijriOf("2024-04-10")).toEqual({ year: 1445, month: 10, day: 1 });
+    expect(hijriOf("2024-06-16")).toEqual({ year: 1445, month: 12, day: 10 });
+    expect(hijriOf("2024-07-07")).toEqual({ year: 1446, month: 1, day: 1 });
+  });
+
+  it("starts the tabular calendar on 16 July 622 (Julian)", () => {
+    // 19 July 622 in the proleptic Gregorian calendar
+    expect(hijriOf("0622-07-19", "tabular")).toEqual({ year: 1, month: 1, day: 1 });
+    expect(hijriOf("2024-07-07", "tabular")).toEqual({ year: 1445, month: 12, day: 30 });
+  });
+
+  it("moves the date by the adjustment", () => {
+    expect(hijriOf("2024-03-11", "umm-al-qura", -1)).toEqual({ year: 1445, month: 8, day: 29 });
+  });
+});
+
+describe("toGregorian", () => {
+  it("converts back to the same day", () => {
+    for (const calendar of ["umm-al-qura", "tabular"] as const) {
+      for (const date of ["2023-01-01", "2024-02-29", "2024-12-31", "2025-03-30"]) {
+        const days = parseGregorian(date);
+        expect(formatGregorian(toGregorian(toHijri(days, calendar), calendar))).toBe(date);
+      }
+    }
+  });
+
+  it("rejects a 30th day in a 29-day month", () => {
+    // Sha'ban 1445 had 29 days in the Umm al-Qura calendar
+    expect(() => toGregorian({ year: 1445, month: 8, day: 30 })).toThrow("does not exist");
+  });
+});
+
+describe("listGregorianYearEvents", () => {
+  it("lists the events of a Gregorian year across two Hijri years", () => {
+    const events = Object.fromEntries(listGregorianYearEvents(2024).map(({ name, gregorian }) => [name, gregorian]));
+    expect(events).toMatchObject({
+      "Start of Ramadan": "2024-03-11",
+      "Eid al-Fitr": "2024-04-10",
+      "Day of Arafah": "2024-06-15",
+      "Eid al-Adha": "2024-06-16",
+      "Islamic New Year": "2024-07-07",
+      Ashura: "2024-07-16",
+    });
+  });
+});
+
+describe("parsing", () => {
+  it("rejects dates that do not exist", () => {
+    expect(() => parseGregorian("2023-02-29")).toThrow("Invalid date");
+    expect(() => parseHijri("1445-13-01")).toThrow("Invalid Hijri date");
+  });
+
+  it("formats Hijri dates with the month name", () => {
+    expect(formatHijri(parseHijri("1445-09-01"))).toBe("1 Ramadan 1445 AH");
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Hijri <-> Gregorian conversion using either the Umm al-Qura calendar of
+ * Saudi Arabia or the arithmetical (tabular) Islamic calendar.
+ *
+ * Both are calculated calendars: the start of a month announced after a
+ * local moon sighting can differ by a day or two, which is what the day
+ * adjustment is for.
+ */
+
+export type HijriCalendarType = "umm-al-qura" | "tabular";
+
+export interface HijriDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface IslamicEvent {
+  name: string;
+  hijri: HijriDate;
+  // Gregorian date as YYYY-MM-DD
+  gregorian: string;
+}
+
+export const HIJRI_MONTHS = [
+  "Muharram",
+  "Safar",
+  "Rabi' al-Awwal",
+  "Rabi' al-Thani",
+  "Jumada al-Ula",
+  "Jumada al-Akhirah",
+  "Rajab",
+  "Sha'ban",
+  "Ramadan",
+  "Shawwal",
+  "Dhu al-Qi'dah",
+  "Dhu al-Hijjah",
+];
+
+// Major dates of the Islamic year as [month, day, name]
+const ANNUAL_EVENTS: [number, number, string][] = [
+  [1, 1, "Islamic New Year"],
+  [1, 9, "Tasu'a"],
+  [1, 10, "Ashura"],
+  [9, 1, "Start of Ramadan"],
+  [9, 21, "Start of the last ten nights of Ramadan"],
+  [10, 1, "Eid al-Fitr"],
+  [12, 1, "Start of the first ten days of Dhu al-Hijjah"],
+  [12, 8, "Day of Tarwiyah"],
+  [12, 9, "Day of Arafah"],
+  [12, 10, "Eid al-Adha"],
+  [12, 11, "Days of Tashriq begin"],
+  [12, 13, "Days of Tashriq end"],
+];
+
+// The "white days" (al-ayyam al-bid) recommended for fasting each month
+const WHITE_DAYS = [13, 14, 15];
+
+const DAY_MS = 86_400_000;
+
+// Days since 1970-01-01 for a YYYY-MM-DD date, throwing for invalid input
+export const parseGregorian = (date: string) => {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const [year, month, day] = match ? match.slice(1).map(Number) : [];
+  const time = Date.UTC(year, month - 1, day);
+  if (!match || new Date(time).getUTCDate() !== day) {
+    throw new Error(`Invalid date '${date}'. Use the format YYYY-MM-DD.`);
+  }
+  return time / DAY_MS;
+};
+
+export const formatGregorian = (days: number) =>
+  new Date(days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Parses a Hijri date written as YYYY-MM-DD, e.g. "1446-12-10"
+ */
+export const parseHijri = (date: string): HijriDate => {
+  const match = date.match(/^(\d{1,4})-(\d{1,2})-(\d{1,2})$/);
+  const [year, month, day] = match ? match.slice(1).map(Number) : [];
+  if (!match || year < 1 || month < 1 || month > 12 || day < 1 || day > 30) {
+    throw new Error(`Invalid Hijri date '${date}'. Use the format YYYY-MM-DD, e.g. 1446-09-01.`);
+  }
+  return { year, month, day };
+};
+
+export const formatHijri = ({ year, month, day }: HijriDate) =>
+  `${day} ${HIJRI_MONTHS[month - 1]} ${year} AH`;
+
+// Tabular calendar, civil epoch (16 July 622), leap years 2, 5, 7, 10, 13,
+// 16, 18, 21, 24, 26 and 29 of each 30-year cycle
+const TABULAR_EPOCH = 1948439.5;
+const UNIX_EPOCH_JD = 2440587.5;
+
+const tabularToDays = ({ year, month, day }: HijriDate) =>
+  day +
+  Math.ceil(29.5 * (month - 1)) +
+  (year - 1) * 354 +
+  Math.floor((3 + 11 * year) / 30) +
+  TABULAR_EPOCH -
+  1 -
+  UNIX_EPOCH_JD;
+
+const daysToTabular = (days: number): HijriDate => {
+  const jd = days + UNIX_EPOCH_JD;
+  const year = Math.floor((30 * (jd - TABULAR_EPOCH) + 10646) / 10631);
+  const month = Math.min(
+    12,
+    Math.ceil((jd - 29 - tabularToDays({ year, month: 1, day: 1 }) - UNIX_EPOCH_JD) / 29.5) + 1
+  );
+  const day = jd - tabularToDays({ year, month, day: 1 }) - UNIX_EPOCH_JD + 1;
+  return { year, month, day: Math.round(day) };
+};
+
+const ummAlQuraFormat = new Intl.DateTimeFormat("en-u-ca-islamic-umalqura", {
+  timeZone: "UTC",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+});
+
+const daysToUmmAlQura = (days: number): HijriDate => {
+  const parts = ummAlQuraFormat.formatToParts(new Date(days * DAY_MS));
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return { year: part("year"), month: part("month"), day: part("day") };
+};
+
+const compareHijri = (a: HijriDate, b: HijriDate) =>
+  a.year - b.year || a.month - b.month || a.day - b.day;
+
+/**
+ * Converts a Gregorian date (days since 1970-01-01) to a Hijri date.
+ * A positive adjustment moves the Hijri date later by that many days.
+ */
+export const toHijri = (
+  days: number,
+  calendar: HijriCalendarType = "umm-al-qura",
+  adjustment = 0
+): HijriDate => {
+  const adjusted = days + adjustment;
+  return calendar === "tabular"
+    ? daysToTabular(adjusted)
+    : daysToUmmAlQura(adjusted);
+};
+
+/**
+ * Converts a Hijri date to a Gregorian date (days since 1970-01-01),
+ * throwing if the day does not exist in that month.
+ */
+export const toGregorian = (
+  hijri: HijriDate,
+  calendar: HijriCalendarType = "umm-al-qura",
+  adjustment = 0
+): number => {
+  // The tabular date is within a couple of days of Umm al-Qura; search
+  // around it for the day that converts back to the requested date
+  const estimate = Math.round(tabularToDays(hijri));
+  for (let offset = 0; offset <= 5; offset++) {
+    for (const candidate of offset ? [estimate - offset, estimate + offset] : [estimate]) {
+      const days = candidate - adjustment;
+      if (compareHijri(toHijri(days, calendar, adjustment), hijri) === 0) {
+        return days;
+      }
+    }
+  }
+
+  throw new Error(
+    `${formatHijri(hijri)} does not exist in the ${calendar} calendar (the month may have only 29 days).`
+  );
+};
+
+/**
+ * Lists the major Islamic events of a Hijri year, optionally with the
+ * white days of every month
+ */
+export const listHijriYearEvents = (
+  year: number,
+  calendar: HijriCalendarType = "umm-al-qura",
+  adjustment = 0,
+  includeWhiteDays = false
+): IslamicEvent[] => {
+  const dates: [number, number, string][] = [...ANNUAL_EVENTS];
+  if (includeWhiteDays) {
+    for (let month = 1; month <= 12; month++) {
+      dates.push([month, WHITE_DAYS[0], `White days of ${HIJRI_MONTHS[month - 1]} (${WHITE_DAYS.join(", ")})`]);
+    }
+  }
+
+  return dates
+    .map(([month, day, name]) => {
+      const hijri = { year, month, day };
+      return { name, hijri, gregorian: formatGregorian(toGregorian(hijri, calendar, adjustment)) };
+    })
+    .sort((a, b) => compareHijri(a.hijri, b.hijri));
+};
+
+/**
+ * Lists the major Islamic events that fall within a Gregorian year,
+ * which spans parts of two Hijri years
+ */
+export const listGregorianYearEvents = (
+  year: number,
+  calendar: HijriCalendarType = "umm-al-qura",
+  adjustment = 0,
+  includeWhiteDays = false
+): IslamicEvent[] => {
+  const first = toHijri(parseGregorian(`${year}-01-01`), calendar, adjustment).year;
+  const prefix = `${year}-`;
+
+  return [first, first + 1]
+    .flatMap((hijriYear) => listHijriYearEvents(hijriYear, calendar, adjustment, includeWhiteDays))
+    .filter((event) => event.gregorian.startsWith(prefix));
+};
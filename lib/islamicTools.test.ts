@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import { hadithSearchTool, hadithTool, quranWordAnalysisTool, tafsirTool } from "./islamicTools";
+
+// Serve hadiths from the bundled sample collections
+vi.stubEnv("HADITH_PROVIDER", "local");
+
+// Serve commentary from the fixture work
+vi.mock("./tafsirSource", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./tafsirSource")>();
+  const { loadFixtureManifest, loadFixtureWork } = await import("./__fixtures__/tafsir");
+  const source = actual.createLocalTafsirSource(loadFixtureWork, loadFixtureManifest);
+  return { ...actual, getTafsirSource: () => source };
+});
+
+describe("tafsirTool", () => {
+  it("labels each passage with the ayahs it explains", async () => {
+    expect(await tafsirTool.invoke({ reference: "1:1-3", work: "example" })).toBe(
+      "Example Tafsir on Quran 1:1-3\n\n[1:1]\nCommentary on the basmala.\n\n[1:2-4]\nCommentary explaining ayahs 2 to 4 together."
+    );
+  });
+
+  it("splits long commentary into parts", async () => {
+    const first = await tafsirTool.invoke({ reference: "2:255", work: "example", maxLength: 500 });
+    expect(first).toMatch(/^Example Tafsir on Quran 2:255, part 1 of 3\n\n\[2:255\]\nFirst paragraph/);
+    expect(first).toMatch(/The commentary continues in part 2\.$/);
+
+    const last = await tafsirTool.invoke({ reference: "2:255", work: "example", maxLength: 500, part: 3 });
+    expect(last).toMatch(/^Example Tafsir on Quran 2:255, part 3 of 3\n\nThird paragraph/);
+    expect(last).not.toContain("continues");
+  });
+
+  it("reports a part past the end", async () => {
+    expect(await tafsirTool.invoke({ reference: "2:255", work: "example", maxLength: 500, part: 4 })).toBe(
+      "Error: Part must be between 1 and 3."
+    );
+  });
+
+  it("lists the available works for an unknown one", async () => {
+    expect(await tafsirTool.invoke({ reference: "1:1", work: "jalalayn" })).toBe(
+      "Error: Unknown tafsir 'jalalayn'. Available: example (Example Tafsir, English)"
+    );
+  });
+});
+
+// Runs against the bundled morphology data, which covers only al-Fatiha
+describe("quranWordAnalysisTool", () => {
+  it("says that root counts cover only the imported surahs", async () => {
+    const analysis = await quranWordAnalysisTool.invoke({ reference: "1:1", word: 3 });
+    expect(analysis).toContain("Root: ر ح م");
+    expect(analysis).toContain("Within the 1 imported surah (1) only, the root ر ح م occurs 4 times in 1 surah:");
+    expect(analysis).toContain("Morphology data covers only 1 of the 114 surahs, so these counts are incomplete");
+  });
+
+  it("names the imported surahs when asked about another", async () => {
+    expect(await quranWordAnalysisTool.invoke({ reference: "2:255", word: 1 })).toBe(
+      "Word analysis is not available for surah 2. Morphology data covers only the 1 imported surah (1)."
+    );
+  });
+});
+
+describe("hadith tools", () => {
+  it("look up hadiths in the available collections", async () => {
+    const message = await hadithTool.invoke({
+      id: "call-1",
+      name: "hadith_by_number",
+      args: { collection: "bukhari", number: 8 },
+      type: "tool_call",
+    });
+    expect(message.artifact).toMatchObject({ collection: "bukhari", number: "8" });
+  });
+
+  it("list the available collections for one that is not", async () => {
+    const available = "Error: Unknown hadith collection 'muslim'. Available: bukhari (Sahih al-Bukhari)";
+    expect(await hadithTool.invoke({ collection: "muslim", number: 1 })).toBe(available);
+    expect(await hadithSearchTool.invoke({ query: "intention", collection: "muslim" })).toBe(available);
+  });
+});
@@ -1,51 +1,58 @@
 import { z } from "zod";
 import { DynamicStructuredTool } from "@langchain/core/tools";
-
-// Define interfaces for API responses
-interface QuranTranslation {
-  text: string;
-}
-
-interface QuranTranslationResponse {
-  translations: QuranTranslation[];
-}
-
-interface QuranVerse {
-  text_uthmani: string;
-}
-
-interface QuranVerseResponse {
-  verses: QuranVerse[];
-}
-
-interface QuranSearchResult {
-  verse_key: string;
-  text: string;
-}
-
-interface QuranSearchResponse {
-  search: {
-    results: QuranSearchResult[];
-  };
-}
-
-interface HadithResponse {
-  hadith: {
-    body: string;
-    translation: string;
-    grade?: string;
-  };
-}
-
-interface HadithSearchResult {
-  collection: string;
-  hadithNumber: string;
-  translation: string;
-}
-
-interface HadithSearchResponse {
-  data: HadithSearchResult[];
-}
+import { getQuranDataSource, isInLanguage, toTranslationName } from "./quranDataSource";
+import { getSurah, parseVerseRange } from "./quranMetadata";
+import { formatHadithCitation, getHadithProvider, Hadith, HadithProvider, HadithResult } from "./hadithProvider";
+import { chunkText, getTafsirSource } from "./tafsirSource";
+import {
+  calculatePrayerTimes,
+  CALCULATION_METHODS,
+  formatTimezoneOffset,
+  resolveTimezoneOffset,
+} from "./prayerTimes";
+import {
+  formatGregorian,
+  formatHijri,
+  HijriCalendarType,
+  IslamicEvent,
+  listGregorianYearEvents,
+  listHijriYearEvents,
+  parseGregorian,
+  parseHijri,
+  toGregorian,
+  toHijri,
+} from "./hijriCalendar";
+import { calculateQibla, findCity } from "./qibla";
+import {
+  calculateLivestockZakat,
+  calculateProduceZakat,
+  calculateWealthZakat,
+  GOLD_NISAB_GRAMS,
+  Irrigation,
+  Livestock,
+  NisabStandard,
+  resolveMetalPrices,
+  SILVER_NISAB_GRAMS,
+  ZakatAssets,
+} from "./zakat";
+import { calculateMirath, formatFraction, HEIR_LABELS, Heir, Madhhab, Survivors } from "./mirath";
+import { checkIngredients } from "./halalIngredients";
+import {
+  calculatePurification,
+  CompanyFinancials,
+  findCompany,
+  ScreeningStandard,
+  ScreeningThresholds,
+  screenCompany,
+} from "./shariahScreening";
+import {
+  findWordLocations,
+  getMorphologyCoverage,
+  getRootOccurrences,
+  getVerseWords,
+  getWordAt,
+  MorphologyWord,
+} from "./quranMorphology";
 
 /**
  * Tool for retrieving Quran verses by surah and ayah numbers
@@ -58,42 +65,22 @@ export const quranTool = new DynamicStructuredTool({
     ayah: z.number().describe("The ayah number within the surah"),
     translation: z.string().optional().describe("Optional: The translation to use (default: 'en.sahih')"),
   }),
-  func: async ({ surah, ayah, translation = "en.sahih" }: { surah: number; ayah: number; translation?: string }) => {
+  func: async ({ surah, ayah, translation = "en.sahih" }: { surah: number; ayah: number; translation?: string }, _runManager, config) => {
     try {
       // Validate input
-      if (surah < 1 || surah > 114) {
+      const surahInfo = getSurah(surah);
+      if (!surahInfo) {
         return "Error: Surah number must be between 1 and 114.";
       }
-
-      // Use the Quran.com API to fetch the verse
-      const response = await fetch(
-        `https://api.quran.com/api/v4/quran/translations/${translation}?verse_key=${surah}:${ayah}`
-      );
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch Quran verse: ${response.statusText}`);
+      if (ayah < 1 || ayah > surahInfo.ayahs) {
+        return `Error: Surah ${surah} (${surahInfo.transliteration}) has ${surahInfo.ayahs} ayahs.`;
       }
 
-      const data = await response.json() as QuranTranslationResponse;
-      
-      // Also fetch the Arabic text
-      const arabicResponse = await fetch(
-        `https://api.quran.com/api/v4/quran/verses/uthmani?verse_key=${surah}:${ayah}`
-      );
-      
-      if (!arabicResponse.ok) {
-        throw new Error(`Failed to fetch Arabic text: ${arabicResponse.statusText}`);
-      }
-      
-      const arabicData = await arabicResponse.json() as QuranVerseResponse;
-      
+      const verse = await getQuranDataSource().getVerse(surah, ayah, translation, config?.signal);
+
       // Format the response
-      if (data.translations && data.translations.length > 0 && 
-          arabicData.verses && arabicData.verses.length > 0) {
-        const translationText = data.translations[0].text;
-        const arabicText = arabicData.verses[0].text_uthmani;
-        
-        return `Quran ${surah}:${ayah}\n\nArabic: ${arabicText}\n\nTranslation: ${translationText}`;
+      if (verse) {
+        return `Quran ${surah}:${ayah}\n\nArabic: ${verse.arabic}\n\nTranslation: ${verse.translation}`;
       } else {
         return `Could not find verse ${surah}:${ayah}`;
       }
@@ -105,6 +92,179 @@ export const quranTool = new DynamicStructuredTool({
   },
 });
 
+/**
+ * Tool for retrieving a range of verses or a whole surah, paginated
+ */
+export const quranPassageTool = new DynamicStructuredTool({
+  name: "quran_passage",
+  description: "Get a passage of consecutive Quran verses or a whole surah, with Arabic and translation verse by verse",
+  schema: z.object({
+    reference: z.string().describe("The passage to retrieve, e.g. '2:255-257' for a range, '2:255' for one verse, or '67' / 'Al-Mulk' for a whole surah"),
+    translation: z.string().optional().describe("Optional: The translation to use (default: 'en.sahih')"),
+    page: z.number().optional().describe("Optional: Page of the passage to return for long passages (default: 1)"),
+    pageSize: z.number().optional().describe("Optional: Number of verses per page, at most 50 (default: 20)"),
+  }),
+  func: async ({ reference, translation = "en.sahih", page = 1, pageSize = 20 }: { reference: string; translation?: string; page?: number; pageSize?: number }, _runManager, config) => {
+    try {
+      let range;
+      try {
+        range = parseVerseRange(reference);
+      } catch (error) {
+        return `Error: ${error instanceof Error ? error.message : 'Invalid verse reference'}`;
+      }
+
+      // Work out which slice of the passage this page covers
+      const size = Math.min(Math.max(Math.floor(pageSize), 1), 50);
+      const total = range.toAyah - range.fromAyah + 1;
+      const totalPages = Math.ceil(total / size);
+      if (page < 1 || page > totalPages) {
+        return `Error: Page must be between 1 and ${totalPages}.`;
+      }
+
+      const fromAyah = range.fromAyah + (page - 1) * size;
+      const toAyah = Math.min(fromAyah + size - 1, range.toAyah);
+      const verses = await getQuranDataSource().getVerses(range.surah, fromAyah, toAyah, translation, config?.signal);
+
+      if (verses.length === 0) {
+        return `Could not find verses ${range.surah}:${fromAyah}-${toAyah}`;
+      }
+
+      const surahInfo = getSurah(range.surah)!;
+      const passageKey = range.fromAyah === range.toAyah
+        ? `${range.surah}:${range.fromAyah}`
+        : `${range.surah}:${range.fromAyah}-${range.toAyah}`;
+      const header = `Quran ${passageKey} (${surahInfo.transliteration} - ${surahInfo.translation})`
+        + (totalPages > 1 ? `, page ${page} of ${totalPages}` : "");
+
+      const formatted = verses.map((verse) => {
+        return `${verse.surah}:${verse.ayah}\nArabic: ${verse.arabic}\nTranslation: ${verse.translation}`;
+      });
+
+      const footer = page < totalPages
+        ? `\n\nVerses ${toAyah + 1}-${range.toAyah} follow on page ${page + 1}.`
+        : "";
+
+      return `${header}\n\n${formatted.join('\n\n')}${footer}`;
+    } catch (error) {
+      console.error("Error in quranPassageTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error retrieving Quran passage: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for comparing several translations of the same verse or range
+ */
+export const quranCompareTranslationsTool = new DynamicStructuredTool({
+  name: "quran_compare_translations",
+  description: "Compare several translations of a Quran verse or short range side by side. Use quran_list_translations to find valid translation ids.",
+  schema: z.object({
+    reference: z.string().describe("The verse or range to compare, e.g. '2:255' or '2:255-257' (at most 10 verses)"),
+    translations: z.array(z.string()).describe("The translation ids to compare (at most 6), e.g. ['en.sahih', 'ur.maududi']"),
+  }),
+  func: async ({ reference, translations }: { reference: string; translations: string[] }, _runManager, config) => {
+    try {
+      let range;
+      try {
+        range = parseVerseRange(reference);
+      } catch (error) {
+        return `Error: ${error instanceof Error ? error.message : 'Invalid verse reference'}`;
+      }
+
+      if (range.toAyah - range.fromAyah + 1 > 10) {
+        return "Error: Compare at most 10 verses at a time.";
+      }
+      if (translations.length === 0 || translations.length > 6) {
+        return "Error: Provide between 1 and 6 translation ids.";
+      }
+
+      const dataSource = getQuranDataSource();
+      const available = await dataSource.listTranslations().catch(() => []);
+      const names = new Map(available.map((info) => [info.id, `${info.name} (${info.language})`]));
+      const nameOf = (translation: string) =>
+        names.get(translation) || names.get(toTranslationName(translation)) || translation;
+
+      // Fetch every translation, keeping failures per translation
+      const results = await Promise.all(
+        translations.map((translation) =>
+          dataSource
+            .getVerses(range.surah, range.fromAyah, range.toAyah, translation, config?.signal)
+            .then((verses) => ({ translation, verses, error: null }))
+            .catch((error) => ({
+              translation,
+              verses: [],
+              error: error instanceof Error ? error.message : 'Unknown error',
+            }))
+        )
+      );
+
+      const arabic = results.find((result) => result.verses.length > 0)?.verses;
+      if (!arabic) {
+        const errors = results.map((result) => `${result.translation}: ${result.error || 'No verses found'}`);
+        return `Could not retrieve any translation of ${reference}:\n\n${errors.join('\n')}`;
+      }
+
+      const formatted = arabic.map((verse, index) => {
+        const lines = results.map((result) => {
+          const label = `[${result.translation}] ${nameOf(result.translation)}`;
+          const text = result.error ? `Error: ${result.error}` : result.verses[index]?.translation || 'Not available';
+          return `${label}: ${text}`;
+        });
+        return `${verse.surah}:${verse.ayah}\nArabic: ${verse.arabic}\n${lines.join('\n')}`;
+      });
+
+      return `Translation comparison for Quran ${reference}:\n\n${formatted.join('\n\n')}`;
+    } catch (error) {
+      console.error("Error in quranCompareTranslationsTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error comparing translations: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for listing the available Quran translations by language
+ */
+export const quranListTranslationsTool = new DynamicStructuredTool({
+  name: "quran_list_translations",
+  description: "List the available Quran translation ids, grouped by language",
+  schema: z.object({
+    language: z.string().optional().describe("Optional: Only list translations in this language, e.g. 'English' or 'ur'"),
+  }),
+  func: async ({ language }: { language?: string }) => {
+    try {
+      const translations = (await getQuranDataSource().listTranslations()).filter(
+        (info) => !language || isInLanguage(info, language)
+      );
+
+      if (translations.length === 0) {
+        return language
+          ? `No translations available in "${language}".`
+          : "No translations available.";
+      }
+
+      // Group translations by language
+      const byLanguage = new Map<string, string[]>();
+      for (const info of translations) {
+        const entries = byLanguage.get(info.language) || [];
+        entries.push(`- ${info.id}: ${info.name}`);
+        byLanguage.set(info.language, entries);
+      }
+
+      const formatted = [...byLanguage.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, entries]) => `${name}\n${entries.join('\n')}`);
+
+      return `Available Quran translations:\n\n${formatted.join('\n\n')}`;
+    } catch (error) {
+      console.error("Error in quranListTranslationsTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error listing translations: ${errorMessage}`;
+    }
+  },
+});
+
 /**
  * Tool for searching the Quran by keywords
  */
@@ -116,25 +276,16 @@ export const quranSearchTool = new DynamicStructuredTool({
     translation: z.string().optional().describe("Optional: The translation to use (default: 'en.sahih')"),
     limit: z.number().optional().describe("Optional: Maximum number of results to return (default: 5)"),
   }),
-  func: async ({ query, translation = "en.sahih", limit = 5 }: { query: string; translation?: string; limit?: number }) => {
+  func: async ({ query, translation = "en.sahih", limit = 5 }: { query: string; translation?: string; limit?: number }, _runManager, config) => {
     try {
-      // Use the Quran.com API to search
-      const response = await fetch(
-        `https://api.quran.com/api/v4/search?q=${encodeURIComponent(query)}&size=${limit}&language=en&page=1&translations=${translation}`
-      );
-
-      if (!response.ok) {
-        throw new Error(`Failed to search Quran: ${response.statusText}`);
-      }
+      const results = await getQuranDataSource().search(query, { translation, limit }, config?.signal);
 
-      const data = await response.json() as QuranSearchResponse;
-      
-      if (data.search && data.search.results && data.search.results.length > 0) {
-        const results = data.search.results.map((result: QuranSearchResult) => {
-          return `Quran ${result.verse_key}: ${result.text}`;
+      if (results.length > 0) {
+        const formatted = results.map((result) => {
+          return `Quran ${result.verseKey}: ${result.text}`;
         });
         
-        return `Search results for "${query}":\n\n${results.join('\n\n')}`;
+        return `Search results for "${query}":\n\n${formatted.join('\n\n')}`;
       } else {
         return `No results found for "${query}" in the Quran.`;
       }
@@ -147,97 +298,737 @@ export const quranSearchTool = new DynamicStructuredTool({
 });
 
 /**
- * Tool for retrieving Hadith by collection and number
+ * Tool for retrieving tafsir (commentary) on a verse or range
  */
-export const hadithTool = new DynamicStructuredTool({
-  name: "hadith_by_number",
-  description: "Get a hadith by collection name and number",
+export const tafsirTool = new DynamicStructuredTool({
+  name: "tafsir",
+  description: "Get the commentary (tafsir) on a Quran verse or range from a classical work such as Ibn Kathir. Long commentary is returned in parts.",
   schema: z.object({
-    collection: z.string().describe("The hadith collection (e.g., 'bukhari', 'muslim', 'abudawud', 'tirmidhi', 'nasai', 'ibnmajah')"),
-    number: z.number().describe("The hadith number within the collection"),
+    reference: z.string().describe("The verse or range to explain, e.g. '2:255' or '2:255-257' (at most 20 verses)"),
+    work: z.string().optional().describe("Optional: The tafsir to use, e.g. 'ibn-kathir', 'muyassar' or 'saadi' (default: 'ibn-kathir')"),
+    part: z.number().optional().describe("Optional: Which part of a long commentary to return (default: 1)"),
+    maxLength: z.number().optional().describe("Optional: Maximum characters per part, between 500 and 8000 (default: 4000)"),
   }),
-  func: async ({ collection, number }: { collection: string; number: number }) => {
+  func: async ({ reference, work = "ibn-kathir", part = 1, maxLength = 4000 }: { reference: string; work?: string; part?: number; maxLength?: number }, _runManager, config) => {
     try {
-      // Normalize collection name
-      const normalizedCollection = collection.toLowerCase().trim();
-      
-      // Use the Sunnah.com API to fetch the hadith
-      const response = await fetch(
-        `https://api.sunnah.com/v1/hadiths/${normalizedCollection}/${number}`,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "X-API-Key": "SqD712P3E82xnwOAEOkGd5JZH8s9wRR24TqNFzjk"  // This is a public API key for demo purposes
-          }
-        }
+      let range;
+      try {
+        range = parseVerseRange(reference);
+      } catch (error) {
+        return `Error: ${error instanceof Error ? error.message : 'Invalid verse reference'}`;
+      }
+
+      if (range.toAyah - range.fromAyah + 1 > 20) {
+        return "Error: Request tafsir for at most 20 verses at a time.";
+      }
+
+      const source = getTafsirSource();
+      const works = await source.listWorks();
+      const info = works.find(({ id }) => id === work.toLowerCase().trim());
+      if (!info) {
+        const available = works.map(({ id, name, language }) => `${id} (${name}, ${language})`);
+        return `Error: Unknown tafsir '${work}'. Available: ${available.join(', ') || 'none'}`;
+      }
+
+      const passages = await source.getTafsir(
+        info.id,
+        range.surah,
+        range.fromAyah,
+        range.toAyah,
+        config?.signal
       );
+      if (passages.length === 0) {
+        return `No ${info.name} commentary found for Quran ${reference}`;
+      }
+
+      // Label each passage with the ayahs it explains, then split into parts
+      const text = passages
+        .map((passage) => {
+          const key = passage.fromAyah === passage.toAyah
+            ? `${passage.surah}:${passage.fromAyah}`
+            : `${passage.surah}:${passage.fromAyah}-${passage.toAyah}`;
+          return `[${key}]\n${passage.text}`;
+        })
+        .join('\n\n');
+      const chunks = chunkText(text, Math.min(Math.max(Math.floor(maxLength), 500), 8000));
+
+      if (part < 1 || part > chunks.length) {
+        return `Error: Part must be between 1 and ${chunks.length}.`;
+      }
+
+      const header = `${info.name} on Quran ${reference}`
+        + (chunks.length > 1 ? `, part ${part} of ${chunks.length}` : "");
+      const footer = part < chunks.length
+        ? `\n\nThe commentary continues in part ${part + 1}.`
+        : "";
+
+      return `${header}\n\n${chunks[part - 1]}${footer}`;
+    } catch (error) {
+      console.error("Error in tafsirTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error retrieving tafsir: ${errorMessage}`;
+    }
+  },
+});
+
+// The collections differ by backend: the local one serves only those imported
+// into data/hadith. Returns an error message for a collection it lacks
+const checkCollection = async (provider: HadithProvider, collection: string) => {
+  const collections = await provider.listCollections();
+  if (collections.some(({ id }) => id === collection.toLowerCase().trim())) return null;
+  const available = collections.map(({ id, name }) => `${id} (${name})`);
+  return `Error: Unknown hadith collection '${collection}'. Available: ${available.join(", ") || "none"}`;
+};
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch hadith: ${response.statusText}`);
+// Attach a ready-made citation so the model can quote the reference exactly
+const toHadithResult = (hadith: Hadith): HadithResult => ({
+  ...hadith,
+  citation: formatHadithCitation(hadith),
+});
+
+/**
+ * Tool for retrieving Hadith by collection and number.
+ * Returns the structured hadith as JSON, with the same data as the artifact.
+ */
+export const hadithTool = new DynamicStructuredTool({
+  name: "hadith_by_number",
+  description: "Get a hadith by collection name and number, with its book, chapter, narrator and grading",
+  schema: z.object({
+    collection: z.string().describe("The hadith collection, e.g. 'bukhari'. Which collections are available depends on the configured source; an unknown one returns the list"),
+    number: z.union([z.number(), z.string()]).describe("The hadith number within the collection (e.g. 8 or '1907a')"),
+  }),
+  responseFormat: "content_and_artifact",
+  func: async ({ collection, number }: { collection: string; number: number | string }, _runManager, config) => {
+    try {
+      const provider = getHadithProvider();
+      const unknown = await checkCollection(provider, collection);
+      if (unknown) {
+        return [unknown, null];
       }
 
-      const data = await response.json() as HadithResponse;
+      const hadith = await provider.getHadith(collection, String(number), config?.signal);
       
-      if (data.hadith) {
-        const hadith = data.hadith;
-        return `Hadith: ${collection} ${number}\n\nArabic: ${hadith.body}\n\nTranslation: ${hadith.translation}\n\nGrade: ${hadith.grade || 'Not specified'}`;
+      if (hadith) {
+        const result = toHadithResult(hadith);
+        return [JSON.stringify(result, null, 2), result];
       } else {
-        return `Could not find hadith ${collection} ${number}`;
+        return [`Could not find hadith ${collection} ${number}`, null];
       }
     } catch (error) {
       console.error("Error in hadithTool:", error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return `Error retrieving hadith: ${errorMessage}`;
+      return [`Error retrieving hadith: ${errorMessage}`, null];
     }
   },
 });
 
 /**
- * Tool for searching hadiths by keywords
+ * Tool for searching hadiths by keywords.
+ * Returns the matching hadiths as JSON, with the same data as the artifact.
  */
 export const hadithSearchTool = new DynamicStructuredTool({
   name: "hadith_search",
   description: "Search hadiths for specific keywords or phrases",
   schema: z.object({
     query: z.string().describe("The keywords or phrase to search for"),
-    collection: z.string().optional().describe("Optional: Specific collection to search (default: searches across all collections)"),
+    collection: z.string().optional().describe("Optional: Specific collection to search, e.g. 'bukhari' (default: searches across all available collections)"),
     limit: z.number().optional().describe("Optional: Maximum number of results to return (default: 5)"),
   }),
-  func: async ({ query, collection, limit = 5 }: { query: string; collection?: string; limit?: number }) => {
+  responseFormat: "content_and_artifact",
+  func: async ({ query, collection, limit = 5 }: { query: string; collection?: string; limit?: number }, _runManager, config) => {
     try {
-      // Build the URL based on whether a specific collection is specified
-      let url = `https://api.sunnah.com/v1/hadiths/search?q=${encodeURIComponent(query)}&limit=${limit}`;
-      if (collection) {
-        url += `&collection=${collection.toLowerCase().trim()}`;
+      const provider = getHadithProvider();
+      const unknown = collection ? await checkCollection(provider, collection) : null;
+      if (unknown) {
+        return [unknown, []];
       }
+
+      const results = await provider.search(query, { collection, limit }, config?.signal);
       
-      // Use the Sunnah.com API to search
-      const response = await fetch(url, {
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": "SqD712P3E82xnwOAEOkGd5JZH8s9wRR24TqNFzjk"  // This is a public API key for demo purposes
+      if (results.length > 0) {
+        const formatted = results.map(toHadithResult);
+        return [JSON.stringify({ query, results: formatted }, null, 2), formatted];
+      } else {
+        return [`No results found for "${query}" in the hadith collections.`, []];
+      }
+    } catch (error) {
+      console.error("Error in hadithSearchTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return [`Error searching hadiths: ${errorMessage}`, []];
+    }
+  },
+});
+
+/**
+ * Tool for calculating daily prayer times for a location, fully offline
+ */
+export const prayerTimesTool = new DynamicStructuredTool({
+  name: "prayer_times",
+  description: "Calculate Fajr, Sunrise, Dhuhr, Asr, Maghrib and Isha times for a location and date",
+  schema: z.object({
+    latitude: z.number().describe("Latitude in degrees (north positive)"),
+    longitude: z.number().describe("Longitude in degrees (east positive)"),
+    timezone: z.string().describe("IANA timezone such as 'Europe/London', or a UTC offset such as '+5' or 'UTC+05:30'"),
+    date: z.string().optional().describe("Optional: Date as YYYY-MM-DD (default: today in the given timezone)"),
+    method: z.enum(["MWL", "ISNA", "Egypt", "Makkah", "Karachi"]).optional().describe("Optional: Calculation method (default: 'MWL'). Makkah is Umm al-Qura."),
+    asrMethod: z.enum(["Standard", "Hanafi"]).optional().describe("Optional: 'Standard' (Shafi'i, Maliki, Hanbali) or 'Hanafi' Asr (default: 'Standard')"),
+    highLatitudeRule: z.enum(["NightMiddle", "AngleBased", "OneSeventh", "None"]).optional().describe("Optional: Adjustment for high latitudes where twilight persists (default: 'NightMiddle')"),
+  }),
+  func: async ({ latitude, longitude, timezone, date, method = "MWL", asrMethod = "Standard", highLatitudeRule = "NightMiddle" }: { latitude: number; longitude: number; timezone: string; date?: string; method?: "MWL" | "ISNA" | "Egypt" | "Makkah" | "Karachi"; asrMethod?: "Standard" | "Hanafi"; highLatitudeRule?: "NightMiddle" | "AngleBased" | "OneSeventh" | "None" }) => {
+    try {
+      // Default to today's date as seen in the requested timezone
+      const today = new Date().toISOString().slice(0, 10);
+      const day = date || new Date(Date.now() + resolveTimezoneOffset(timezone, today) * 3_600_000).toISOString().slice(0, 10);
+      const timezoneOffset = resolveTimezoneOffset(timezone, day);
+
+      const times = calculatePrayerTimes({
+        latitude,
+        longitude,
+        date: day,
+        timezoneOffset,
+        method,
+        asrMethod,
+        highLatitudeRule,
+      });
+
+      const params = CALCULATION_METHODS[method];
+      const ishaRule = "angle" in params.isha ? `Isha ${params.isha.angle}°` : `Isha ${params.isha.minutes} min after Maghrib`;
+      const format = (time: string | null) => time || "Not reached on this date";
+
+      return `Prayer times for ${day} at ${latitude}, ${longitude} (${formatTimezoneOffset(timezoneOffset)})
+Method: ${params.name} (Fajr ${params.fajrAngle}°, ${ishaRule}), Asr: ${asrMethod}, High latitude rule: ${highLatitudeRule}
+
+Fajr: ${format(times.fajr)}
+Sunrise: ${format(times.sunrise)}
+Dhuhr: ${format(times.dhuhr)}
+Asr: ${format(times.asr)}
+Maghrib: ${format(times.maghrib)}
+Isha: ${format(times.isha)}`;
+    } catch (error) {
+      console.error("Error in prayerTimesTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error calculating prayer times: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for converting between Gregorian and Hijri dates and listing Islamic events
+ */
+export const hijriCalendarTool = new DynamicStructuredTool({
+  name: "hijri_calendar",
+  description: "Convert dates between the Gregorian and Hijri calendars, or list the major Islamic events (Ramadan, the two Eids, Ashura, white days) of a year with the number of days until each",
+  schema: z.object({
+    action: z.enum(["to_hijri", "to_gregorian", "events"]).describe("'to_hijri' converts a Gregorian date, 'to_gregorian' converts a Hijri date, 'events' lists the events of a year"),
+    date: z.string().optional().describe("Optional: Gregorian date as YYYY-MM-DD for 'to_hijri' (default: today)"),
+    hijriDate: z.string().optional().describe("Hijri date as YYYY-MM-DD for 'to_gregorian', e.g. '1446-12-10' for 10 Dhu al-Hijjah 1446"),
+    year: z.number().int().optional().describe("Optional: Year for 'events' (default: the current year)"),
+    yearType: z.enum(["hijri", "gregorian"]).optional().describe("Optional: Whether 'year' is a Hijri or Gregorian year (default: 'hijri')"),
+    calendar: z.enum(["umm-al-qura", "tabular"]).optional().describe("Optional: 'umm-al-qura' (Saudi Arabia) or the arithmetical 'tabular' calendar (default: 'umm-al-qura')"),
+    adjustment: z.number().int().min(-3).max(3).optional().describe("Optional: Days to add to the Hijri date to match local moon sighting (default: 0)"),
+    includeWhiteDays: z.boolean().optional().describe("Optional: Include the white days (13-15) of every month in 'events' (default: false)"),
+  }),
+  func: async ({ action, date, hijriDate, year, yearType = "hijri", calendar = "umm-al-qura", adjustment = Number(process.env.HIJRI_DAY_ADJUSTMENT) || 0, includeWhiteDays = false }: { action: "to_hijri" | "to_gregorian" | "events"; date?: string; hijriDate?: string; year?: number; yearType?: "hijri" | "gregorian"; calendar?: HijriCalendarType; adjustment?: number; includeWhiteDays?: boolean }) => {
+    try {
+      const today = parseGregorian(new Date().toISOString().slice(0, 10));
+      const untilToday = (days: number) => {
+        const diff = days - today;
+        if (diff === 0) return "today";
+        return diff > 0 ? `in ${diff} days` : `${-diff} days ago`;
+      };
+      const settings = `Calendar: ${calendar}${adjustment ? `, adjustment ${adjustment > 0 ? "+" : ""}${adjustment} days` : ""}`;
+
+      if (action === "to_hijri") {
+        const days = date ? parseGregorian(date) : today;
+        const hijri = toHijri(days, calendar, adjustment);
+        return `${formatGregorian(days)} is ${formatHijri(hijri)} (${untilToday(days)})
+${settings}`;
+      }
+
+      if (action === "to_gregorian") {
+        if (!hijriDate) {
+          return "Please provide hijriDate as YYYY-MM-DD to convert to a Gregorian date.";
+        }
+        const hijri = parseHijri(hijriDate);
+        const days = toGregorian(hijri, calendar, adjustment);
+        return `${formatHijri(hijri)} is ${formatGregorian(days)} (${untilToday(days)})
+${settings}`;
+      }
+
+      let events: IslamicEvent[];
+      let heading: string;
+      if (yearType === "gregorian") {
+        const gregorianYear = year ?? new Date().getUTCFullYear();
+        events = listGregorianYearEvents(gregorianYear, calendar, adjustment, includeWhiteDays);
+        heading = `Islamic events in ${gregorianYear}`;
+      } else {
+        const hijriYear = year ?? toHijri(today, calendar, adjustment).year;
+        events = listHijriYearEvents(hijriYear, calendar, adjustment, includeWhiteDays);
+        heading = `Islamic events in ${hijriYear} AH`;
+      }
+
+      const lines = events.map(({ name, hijri, gregorian }) =>
+        `${name}: ${formatHijri(hijri)} = ${gregorian} (${untilToday(parseGregorian(gregorian))})`
+      );
+
+      return `${heading}
+${settings}
+Dates are calculated; local moon sighting may differ by a day.
+
+${lines.join("\n")}`;
+    } catch (error) {
+      console.error("Error in hijriCalendarTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error converting date: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for finding the qibla direction and distance to the Kaaba
+ */
+export const qiblaTool = new DynamicStructuredTool({
+  name: "qibla",
+  description: "Get the qibla direction (bearing from true north and compass point) and the distance to the Kaaba in Makkah, from coordinates or the name of a major city",
+  schema: z.object({
+    city: z.string().optional().describe("Optional: Name of a major city, optionally with its country, e.g. 'London' or 'Hyderabad, India'"),
+    latitude: z.number().optional().describe("Optional: Latitude in degrees (north positive), used when no city is given"),
+    longitude: z.number().optional().describe("Optional: Longitude in degrees (east positive), used when no city is given"),
+  }),
+  func: async ({ city, latitude, longitude }: { city?: string; latitude?: number; longitude?: number }) => {
+    try {
+      let location: string;
+      if (city) {
+        const found = await findCity(city);
+        if (!found) {
+          return `City '${city}' is not in the offline city list. Please provide latitude and longitude instead.`;
+        }
+        ({ latitude, longitude } = found);
+        location = `${found.name}, ${found.country} (${latitude}, ${longitude})`;
+      } else if (latitude !== undefined && longitude !== undefined) {
+        location = `${latitude}, ${longitude}`;
+      } else {
+        return "Please provide either a city name or both latitude and longitude.";
+      }
+
+      const { bearing, compassPoint, distanceKm } = calculateQibla(latitude, longitude);
+
+      return `Qibla from ${location}
+Direction: ${bearing.toFixed(1)}° from true north (${compassPoint})
+Distance to the Kaaba: ${Math.round(distanceKm).toLocaleString("en-US")} km
+
+The bearing is relative to true north; a magnetic compass needs correcting for local magnetic declination.`;
+    } catch (error) {
+      console.error("Error in qiblaTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error calculating qibla: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for calculating zakat on wealth, livestock and agricultural produce
+ */
+export const zakatCalculatorTool = new DynamicStructuredTool({
+  name: "zakat_calculator",
+  description: "Calculate zakat: on wealth (cash, gold, silver, trade goods, receivables, investments minus short-term liabilities) against the gold or silver nisab at 2.5%, on grazing livestock (camels, cattle, sheep/goats), or on agricultural produce",
+  schema: z.object({
+    category: z.enum(["wealth", "livestock", "produce"]).describe("What to calculate zakat on"),
+    currency: z.string().optional().describe("Optional: Currency of all monetary amounts and prices, e.g. 'USD' (default: none)"),
+    cash: z.number().optional().describe("Optional (wealth): Cash and bank balances"),
+    goldGrams: z.number().optional().describe("Optional (wealth): Gold held, in grams"),
+    goldKarat: z.number().optional().describe("Optional (wealth): Purity of the gold in karats (default: 24)"),
+    silverGrams: z.number().optional().describe("Optional (wealth): Silver held, in grams"),
+    tradeInventory: z.number().optional().describe("Optional (wealth): Value of goods held for sale"),
+    receivables: z.number().optional().describe("Optional (wealth): Money owed to you that you expect to be repaid"),
+    investments: z.number().optional().describe("Optional (wealth): Value of shares, funds and other investments"),
+    liabilities: z.number().optional().describe("Optional (wealth): Short-term debts and bills due now"),
+    goldPricePerGram: z.number().optional().describe("Optional (wealth): Price of 24K gold per gram (default: configured price)"),
+    silverPricePerGram: z.number().optional().describe("Optional (wealth): Price of silver per gram (default: configured price)"),
+    nisabStandard: z.enum(["gold", "silver"]).optional().describe("Optional (wealth): Nisab standard (default: 'silver')"),
+    animals: z.enum(["camels", "cattle", "sheep"]).optional().describe("Livestock: Type of animal; goats are counted with sheep"),
+    count: z.number().int().optional().describe("Livestock: Number of freely grazing animals held for a lunar year"),
+    harvestKg: z.number().optional().describe("Produce: Harvest of storable crops (grain, dates, raisins), in kilograms"),
+    irrigation: z.enum(["natural", "artificial", "mixed"]).optional().describe("Optional (produce): 'natural' (rain, rivers), 'artificial' (irrigated at a cost) or 'mixed' (default: 'natural')"),
+  }),
+  func: async ({ category, currency, goldPricePerGram, silverPricePerGram, nisabStandard = "silver", animals, count, harvestKg, irrigation = "natural", ...assets }: { category: "wealth" | "livestock" | "produce"; currency?: string; goldPricePerGram?: number; silverPricePerGram?: number; nisabStandard?: NisabStandard; animals?: Livestock; count?: number; harvestKg?: number; irrigation?: Irrigation } & ZakatAssets) => {
+    try {
+      if (category === "livestock") {
+        if (!animals || count === undefined) {
+          return "Please provide the type of animals and their count.";
+        }
+        const result = calculateLivestockZakat(animals, count);
+        const due = result.due.length
+          ? result.due.join(" and ")
+          : `Nothing (below the nisab of ${result.nisab})`;
+
+        return `Zakat on ${count} ${animals}
+Nisab: ${result.nisab}
+Due: ${due}
+
+Applies to animals that graze freely for most of the year and have been owned for a full lunar year. Animals held for trade are assessed as trade inventory instead.`;
+      }
+
+      if (category === "produce") {
+        if (harvestKg === undefined) {
+          return "Please provide the harvest in kilograms.";
         }
+        const result = calculateProduceZakat(harvestKg, irrigation);
+        const due = result.nisabMet
+          ? `${result.dueKg.toFixed(1)} kg (${result.rate * 100}% of the harvest)`
+          : `Nothing (below the nisab of ${result.nisabKg} kg)`;
+
+        return `Zakat on a harvest of ${harvestKg} kg (${irrigation} irrigation)
+Nisab: 5 awsuq, about ${result.nisabKg} kg
+Due: ${due}
+
+Due at harvest time; no lunar year needs to pass. It may be paid in kind or its market value.`;
+      }
+
+      const prices = resolveMetalPrices(goldPricePerGram, silverPricePerGram);
+      if (!prices.goldPerGram || !prices.silverPerGram) {
+        return "Please provide the current gold and silver prices per gram (goldPricePerGram and silverPricePerGram) to determine the nisab.";
+      }
+
+      const result = calculateWealthZakat(
+        assets,
+        { goldPerGram: prices.goldPerGram, silverPerGram: prices.silverPerGram },
+        nisabStandard
+      );
+      const money = (value: number) =>
+        `${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}${currency ? ` ${currency}` : ""}`;
+
+      const items = result.items.map(({ label, value }) => `- ${label}: ${money(value)}`);
+      if (result.liabilities) {
+        items.push(`- Less short-term liabilities: -${money(result.liabilities)}`);
+      }
+      const nisabGrams = nisabStandard === "gold" ? GOLD_NISAB_GRAMS : SILVER_NISAB_GRAMS;
+
+      return `Zakat on wealth
+${items.join("\n") || "- No zakatable assets"}
+
+Net zakatable wealth: ${money(result.netWealth)}
+Nisab (${nisabStandard}, ${nisabGrams} g): ${money(result.nisab)}
+Nisab met: ${result.nisabMet ? "Yes" : "No"}
+Zakat due (2.5%): ${money(result.zakatDue)}
+
+Zakat is due once the wealth has stayed at or above the nisab for a full lunar year (hawl).`;
+    } catch (error) {
+      console.error("Error in zakatCalculatorTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error calculating zakat: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for dividing an estate between heirs according to the fixed shares (fara'id)
+ */
+export const mirathCalculatorTool = new DynamicStructuredTool({
+  name: "mirath_calculator",
+  description: "Divide an estate between the deceased's surviving relatives under Islamic inheritance law (fara'id): fixed shares, residuaries, exclusion (hajb), 'awl and radd. Only list relatives who are alive; omit everyone else.",
+  schema: z.object({
+    estate: z.number().optional().describe("Optional: Estate value after funeral costs, debts and bequests (default: shares only)"),
+    currency: z.string().optional().describe("Optional: Currency of the estate, e.g. 'USD'"),
+    madhhab: z.enum(["hanafi", "maliki", "shafii", "hanbali"]).optional().describe("Optional: School of law for disputed cases such as mushtarakah (default: hanafi)"),
+    heirs: z.object({
+      husband: z.number().int().min(0).optional().describe("Husband (0 or 1)"),
+      wife: z.number().int().min(0).optional().describe("Number of wives"),
+      son: z.number().int().min(0).optional().describe("Number of sons"),
+      daughter: z.number().int().min(0).optional().describe("Number of daughters"),
+      sonsSon: z.number().int().min(0).optional().describe("Number of sons' sons"),
+      sonsDaughter: z.number().int().min(0).optional().describe("Number of sons' daughters"),
+      father: z.number().int().min(0).optional().describe("Father (0 or 1)"),
+      mother: z.number().int().min(0).optional().describe("Mother (0 or 1)"),
+      paternalGrandfather: z.number().int().min(0).optional().describe("Father's father (0 or 1)"),
+      paternalGrandmother: z.number().int().min(0).optional().describe("Father's mother (0 or 1)"),
+      maternalGrandmother: z.number().int().min(0).optional().describe("Mother's mother (0 or 1)"),
+      fullBrother: z.number().int().min(0).optional().describe("Number of full brothers"),
+      fullSister: z.number().int().min(0).optional().describe("Number of full sisters"),
+      paternalHalfBrother: z.number().int().min(0).optional().describe("Number of half brothers through the father"),
+      paternalHalfSister: z.number().int().min(0).optional().describe("Number of half sisters through the father"),
+      maternalHalfBrother: z.number().int().min(0).optional().describe("Number of half brothers through the mother"),
+      maternalHalfSister: z.number().int().min(0).optional().describe("Number of half sisters through the mother"),
+      fullBrothersSon: z.number().int().min(0).optional().describe("Number of full brothers' sons"),
+      paternalHalfBrothersSon: z.number().int().min(0).optional().describe("Number of paternal half brothers' sons"),
+      fullPaternalUncle: z.number().int().min(0).optional().describe("Number of the father's full brothers"),
+      paternalHalfPaternalUncle: z.number().int().min(0).optional().describe("Number of the father's paternal half brothers"),
+      fullPaternalUnclesSon: z.number().int().min(0).optional().describe("Number of sons of the father's full brothers"),
+      paternalHalfPaternalUnclesSon: z.number().int().min(0).optional().describe("Number of sons of the father's paternal half brothers"),
+    }).describe("Surviving relatives of the deceased and how many of each"),
+  }),
+  func: async ({ estate, currency, madhhab, heirs }: { estate?: number; currency?: string; madhhab?: Madhhab; heirs: Survivors }) => {
+    try {
+      const result = calculateMirath(heirs, estate ?? 0, madhhab);
+      const name = (heir: Heir, count: number) => HEIR_LABELS[heir][count > 1 ? 1 : 0];
+      const money = (value: number) =>
+        `${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}${currency ? ` ${currency}` : ""}`;
+
+      const shares = result.shares.map(({ heir, count, share, perPerson, amount, perPersonAmount, basis }) => {
+        const each = count > 1 ? ` (${formatFraction(perPerson)} each${estate !== undefined ? `, ${money(perPersonAmount)} each` : ""})` : "";
+        const value = estate !== undefined ? ` = ${money(amount)}` : "";
+        return `- ${count > 1 ? `${count} ` : ""}${name(heir, count)}: ${formatFraction(share)}${value}${each}\n  ${basis}`;
+      });
+      const blocked = result.blocked.map(({ heir, count, blockedBy }) =>
+        `- ${count > 1 ? `${count} ` : ""}${name(heir, count)}: excluded by the ${blockedBy}`
+      );
+      const unallocated = result.unallocated.numerator
+        ? `\n\nUnallocated: ${formatFraction(result.unallocated)}${estate !== undefined ? ` = ${money((estate * result.unallocated.numerator) / result.unallocated.denominator)}` : ""}`
+        : "";
+
+      return `Inheritance shares${estate !== undefined ? ` of an estate of ${money(estate)}` : ""}
+
+${shares.join("\n") || "- No heirs"}${blocked.length ? `\n\nExcluded heirs (hajb):\n${blocked.join("\n")}` : ""}${unallocated}
+${result.rules.length ? `\nRules applied:\n${result.rules.map((rule) => `- ${rule}`).join("\n")}\n` : ""}
+Calculated according to the Hanafi school where the schools differ (e.g. the grandfather excludes siblings)${madhhab && madhhab !== "hanafi" ? `, except for mushtarakah, which follows the ${madhhab === "shafii" ? "Shafi'i" : madhhab === "maliki" ? "Maliki" : "Hanbali"} school` : ""}. Wills, debts and disputed cases should be confirmed with a qualified scholar or court.`;
+    } catch (error) {
+      console.error("Error in mirathCalculatorTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error calculating inheritance: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for checking food ingredients and E-numbers against the halal database
+ */
+export const halalIngredientCheckTool = new DynamicStructuredTool({
+  name: "halal_ingredient_check",
+  description: "Check a food label's ingredient list or individual E-numbers (e.g. 'E471, gelatin, carmine') against a database of halal, haram, mashbooh (doubtful) and source-dependent ingredients",
+  schema: z.object({
+    ingredients: z.string().describe("Ingredient list as written on the label, separated by commas"),
+  }),
+  func: async ({ ingredients }: { ingredients: string }) => {
+    try {
+      const report = await checkIngredients(ingredients);
+      if (!report.verdicts.length) {
+        return "No ingredients found in the list provided.";
+      }
+
+      const lines = report.verdicts.map(({ ingredient, status, matches }) => {
+        const details = matches.length
+          ? matches.map(({ name, code, status, reason }) => `  ${code ? `${code} ` : ""}${name} (${status}): ${reason}`).join("\n")
+          : "  Not in the ingredient database";
+        return `- ${ingredient}: ${status.toUpperCase()}\n${details}`;
       });
 
-      if (!response.ok) {
-        throw new Error(`Failed to search hadiths: ${response.statusText}`);
+      const count = (status: string) => report.verdicts.filter((verdict) => verdict.status === status).length;
+      const summary = {
+        halal: "All recognised ingredients are halal.",
+        haram: "Contains haram ingredients; the product is not halal.",
+        mashbooh: "Contains doubtful (mashbooh) ingredients; avoiding the product is recommended unless it is halal certified.",
+        "source-dependent": "Contains ingredients whose source is not stated; the product is halal only if these come from plant, microbial or halal-slaughtered animal sources. Look for halal certification or ask the manufacturer.",
+        unknown: "Some ingredients are not in the database; check them individually.",
+      }[report.overall];
+
+      return `Overall: ${report.overall.toUpperCase()}
+${summary}
+(${count("halal")} halal, ${count("haram")} haram, ${count("mashbooh")} mashbooh, ${count("source-dependent")} source-dependent, ${count("unknown")} unknown)
+
+${lines.join("\n")}`;
+    } catch (error) {
+      console.error("Error in halalIngredientCheckTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error checking ingredients: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for screening a company's shares for shariah compliance
+ */
+export const shariahScreeningTool = new DynamicStructuredTool({
+  name: "shariah_screening",
+  description: "Screen a company's shares for shariah compliance from its business activities and financial ratios (debt, cash and interest-bearing securities, receivables, non-permissible income) against AAOIFI, DJIM, MSCI or S&P thresholds, and calculate dividend purification. Figures must come from the user or a company in the local fixture.",
+  schema: z.object({
+    company: z.string().optional().describe("Optional: Ticker or name of a company in the local fixture, used instead of the figures below"),
+    name: z.string().optional().describe("Optional: Company name for the report"),
+    standard: z.enum(["AAOIFI", "DJIM", "MSCI", "SP"]).optional().describe("Optional: Screening methodology (default: 'AAOIFI')"),
+    marketCap: z.number().optional().describe("Optional: Market capitalisation (ideally a 12-36 month average)"),
+    totalAssets: z.number().optional().describe("Optional: Total assets (used by MSCI)"),
+    totalDebt: z.number().optional().describe("Optional: Interest-bearing debt"),
+    cashAndInterestBearing: z.number().optional().describe("Optional: Cash plus interest-bearing deposits and securities"),
+    receivables: z.number().optional().describe("Optional: Accounts receivable"),
+    totalRevenue: z.number().optional().describe("Optional: Total revenue (default: sum of the activities)"),
+    interestIncome: z.number().optional().describe("Optional: Interest income"),
+    nonPermissibleRevenue: z.number().optional().describe("Optional: Other revenue from prohibited activities"),
+    activities: z.array(z.object({
+      name: z.string().describe("Business line, e.g. 'Hotel rooms' or 'Alcohol sales'"),
+      revenue: z.number().describe("Revenue from this business line"),
+    })).optional().describe("Optional: Revenue breakdown by business line"),
+    dividends: z.number().optional().describe("Optional: Dividends received, to calculate the amount to purify"),
+    currency: z.string().optional().describe("Optional: Currency of all amounts, e.g. 'USD'"),
+    maxDebtPercent: z.number().optional().describe("Optional: Override the debt ratio threshold, in percent"),
+    maxCashPercent: z.number().optional().describe("Optional: Override the cash and interest-bearing securities threshold, in percent"),
+    maxReceivablesPercent: z.number().optional().describe("Optional: Override the receivables threshold, in percent"),
+    maxNonPermissibleIncomePercent: z.number().optional().describe("Optional: Override the non-permissible income threshold, in percent"),
+  }),
+  func: async ({ company, standard = "AAOIFI", dividends, currency, maxDebtPercent, maxCashPercent, maxReceivablesPercent, maxNonPermissibleIncomePercent, ...figures }: { company?: string; standard?: ScreeningStandard; dividends?: number; currency?: string; maxDebtPercent?: number; maxCashPercent?: number; maxReceivablesPercent?: number; maxNonPermissibleIncomePercent?: number } & CompanyFinancials) => {
+    try {
+      let financials: CompanyFinancials = figures;
+      if (company) {
+        const found = await findCompany(company);
+        if (!found) {
+          return `Company '${company}' is not in the local fixture. Please provide its financial figures instead.`;
+        }
+        financials = { ...found, ...Object.fromEntries(Object.entries(figures).filter(([, value]) => value !== undefined)) };
       }
 
-      const data = await response.json() as HadithSearchResponse;
-      
-      if (data.data && data.data.length > 0) {
-        const results = data.data.map((hadith: HadithSearchResult) => {
-          return `${hadith.collection} ${hadith.hadithNumber}: ${hadith.translation}`;
-        });
-        
-        return `Search results for "${query}":\n\n${results.join('\n\n')}`;
+      const overrides: Partial<ScreeningThresholds> = Object.fromEntries(
+        Object.entries({
+          debt: maxDebtPercent,
+          cashAndInterestBearing: maxCashPercent,
+          receivables: maxReceivablesPercent,
+          nonPermissibleIncome: maxNonPermissibleIncomePercent,
+        })
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [key, value! / 100])
+      );
+
+      const result = screenCompany(financials, standard, overrides);
+      const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+      const money = (value: number) =>
+        `${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}${currency ? ` ${currency}` : ""}`;
+
+      const criteria = result.criteria.map(({ criterion, ratio, threshold, passed }) =>
+        `- ${criterion}: ${ratio === null ? "not assessed (figures missing)" : `${percent(ratio)} (limit ${percent(threshold)}) ${passed ? "PASS" : "FAIL"}`}`
+      );
+      const activities = result.prohibitedActivities.length
+        ? `\n\nProhibited business lines:\n${result.prohibitedActivities.map(({ name, category, revenue }) => `- ${name} (${category}): ${money(revenue)}`).join("\n")}`
+        : "";
+
+      let purification = "";
+      if (dividends !== undefined) {
+        purification = result.nonPermissibleIncomeRatio === null
+          ? "\n\nPurification: cannot be calculated without revenue and non-permissible income figures."
+          : `\n\nPurification: give ${money(calculatePurification(dividends, result.nonPermissibleIncomeRatio))} of ${money(dividends)} in dividends to charity (${percent(result.nonPermissibleIncomeRatio)} non-permissible income).`;
+      }
+
+      const verdict = result.compliant === null
+        ? "INCOMPLETE (no criterion failed, but some could not be assessed)"
+        : result.compliant ? "COMPLIANT" : "NOT COMPLIANT";
+
+      return `Shariah screening${financials.name ? ` of ${financials.name}` : ""}
+Standard: ${result.standard}${Object.keys(overrides).length ? " (with custom thresholds)" : ""}
+Result: ${verdict}
+
+${criteria.join("\n")}${activities}${purification}
+
+Based only on the figures provided. Screening results change with each financial report.`;
+    } catch (error) {
+      console.error("Error in shariahScreeningTool:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `Error screening company: ${errorMessage}`;
+    }
+  },
+});
+
+/**
+ * Tool for analysing the morphology of Quranic words and finding their roots
+ */
+export const quranWordAnalysisTool = new DynamicStructuredTool({
+  name: "quran_word_analysis",
+  description: "Analyse a word of the Quran: root, lemma, part of speech, grammatical features and gloss, plus where else its root occurs with counts per surah. Give a verse and word position, or an Arabic word. Only surahs whose morphology data has been imported can be analysed, and counts cover only those surahs.",
+  schema: z.object({
+    reference: z.string().optional().describe("Optional: Verse reference such as '1:2' or 'Al-Fatiha 2'; without a word position all words of the verse are listed"),
+    word: z.number().int().min(1).optional().describe("Optional: Position of the word in the verse, counting from 1"),
+    arabic: z.string().optional().describe("Optional: Arabic word to look up, with or without diacritics, e.g. 'الرحمن'"),
+    occurrenceLimit: z.number().int().min(0).max(50).optional().describe("Optional: Number of other occurrences of the root to list (default: 10)"),
+  }),
+  func: async ({ reference, word, arabic, occurrenceLimit = 10 }: { reference?: string; word?: number; arabic?: string; occurrenceLimit?: number }) => {
+    try {
+      const coverage = await getMorphologyCoverage();
+      // Counts are only complete once every surah has been imported
+      const partial = coverage.length < 114;
+      const imported = `the ${coverage.length} imported surah${coverage.length === 1 ? "" : "s"} (${coverage.join(", ") || "none"})`;
+      const notImported = (surah: number) =>
+        `Word analysis is not available for surah ${surah}. Morphology data covers only ${imported}.`;
+
+      const describe = (entry: MorphologyWord) => {
+        const [surah, ayah, position] = entry.location.split(":");
+        return `${entry.arabic}${entry.transliteration ? ` (${entry.transliteration})` : ""} - Quran ${surah}:${ayah}, word ${position}
+Gloss: ${entry.gloss || "n/a"}
+Root: ${entry.root ? [...entry.root].join(" ") : "none"}
+Lemma: ${entry.lemma || "n/a"}
+Part of speech: ${entry.pos}
+Features: ${entry.features.join(", ") || "none"}`;
+      };
+
+      let target: MorphologyWord | undefined;
+      let otherForms = 0;
+
+      if (reference) {
+        const { surah, fromAyah, toAyah } = parseVerseRange(reference);
+        if (fromAyah !== toAyah) {
+          return "Please give a single verse, e.g. '1:2'.";
+        }
+
+        const words = await getVerseWords(surah, fromAyah);
+        if (!words) {
+          return notImported(surah);
+        }
+
+        if (arabic) {
+          const locations = new Set(await findWordLocations(arabic));
+          target = words.find(({ location }) => locations.has(location));
+          if (!target) {
+            return `'${arabic}' does not occur in ${surah}:${fromAyah}.`;
+          }
+        } else if (word) {
+          target = words[word - 1];
+          if (!target) {
+            return `Verse ${surah}:${fromAyah} has ${words.length} words.`;
+          }
+        } else {
+          const listing = words.map((entry, index) =>
+            `${index + 1}. ${entry.arabic} - ${entry.gloss || "n/a"} (root: ${entry.root ? [...entry.root].join(" ") : "none"}; ${entry.pos})`
+          );
+          return `Words of Quran ${surah}:${fromAyah}\n\n${listing.join("\n")}`;
+        }
+      } else if (arabic) {
+        const locations = await findWordLocations(arabic);
+        if (!locations.length) {
+          return `'${arabic}' was not found in ${imported}.`;
+        }
+        target = await getWordAt(locations[0]);
+        otherForms = locations.length - 1;
       } else {
-        return `No results found for "${query}" in the hadith collections.`;
+        return "Please provide a verse reference with a word position, or an Arabic word.";
       }
+
+      if (!target) {
+        return "Word not found.";
+      }
+
+      let occurrences = "";
+      if (target.root) {
+        const { total, bySurah, locations } = await getRootOccurrences(target.root);
+        const counts = bySurah.map(({ surah, count }) => `${getSurah(surah)?.transliteration || surah} (${surah}): ${count}`);
+        const others = await Promise.all(
+          locations
+            .filter((location) => location !== target!.location)
+            .slice(0, occurrenceLimit)
+            .map(async (location) => {
+              const other = await getWordAt(location);
+              return `- ${location}: ${other?.arabic || ""}${other?.gloss ? ` - ${other.gloss}` : ""}`;
+            })
+        );
+
+        occurrences = `
+
+${partial ? `Within ${imported} only, the root` : "The root"} ${[...target.root].join(" ")} occurs ${total} time${total === 1 ? "" : "s"} in ${bySurah.length} surah${bySurah.length === 1 ? "" : "s"}:
+${counts.join("\n")}${others.length ? `\n\nOther occurrences:\n${others.join("\n")}` : ""}`;
+      }
+
+      const coverageNote = partial
+        ? `\n\nMorphology data covers only ${coverage.length} of the 114 surahs, so these counts are incomplete for the Quran as a whole.`
+        : "";
+
+      return `${describe(target)}${otherForms ? `\n\nThis exact word appears ${otherForms} more time${otherForms === 1 ? "" : "s"}${partial ? ` in ${imported}` : ""}.` : ""}${occurrences}${coverageNote}`;
     } catch (error) {
-      console.error("Error in hadithSearchTool:", error);
+      console.error("Error in quranWordAnalysisTool:", error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return `Error searching hadiths: ${errorMessage}`;
+      return `Error analysing word: ${errorMessage}`;
     }
   },
 });
@@ -245,7 +1036,19 @@ export const hadithSearchTool = new DynamicStructuredTool({
 // Export all tools as an array for easy integration
 export const islamicTools = [
   quranTool,
+  quranPassageTool,
+  quranCompareTranslationsTool,
+  quranListTranslationsTool,
   quranSearchTool,
+  tafsirTool,
   hadithTool,
-  hadithSearchTool
+  hadithSearchTool,
+  prayerTimesTool,
+  hijriCalendarTool,
+  qiblaTool,
+  zakatCalculatorTool,
+  mirathCalculatorTool,
+  halalIngredientCheckTool,
+  shariahScreeningTool,
+  quranWordAnalysisTool
 ];
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from "vitest";
+import type { StreamEvent } from "@langchain/core/tracers/log_stream";
+import { getAgentToken } from "./langgraph";
+
+// The wxflows tools are fetched when the module loads
+vi.mock("@wxflows/sdk/langchain", () => ({
+  default: class {
+    lcTools = Promise.resolve([]);
+  },
+}));
+
+// A chunk streamed by the agent node's model
+const chunk = (content: unknown, node = "agent") =>
+  ({
+    event: "on_chat_model_stream",
+    metadata: { langgraph_node: node },
+    data: { chunk: { content } },
+  }) as unknown as StreamEvent;
+
+describe("getAgentToken", () => {
+  it("returns string content", () => {
+    expect(getAgentToken(chunk("Salam"))).toBe("Salam");
+  });
+
+  it("joins the text parts and skips the others", () => {
+    const content = [
+      { index: 0, type: "thinking", thinking: "Hmm" },
+      { index: 1, type: "text", text: "Wa " },
+      { index: 2, type: "tool_use", input: '{"surah":' },
+      { index: 3, type: "text", text: "alaikum" },
+    ];
+    expect(getAgentToken(chunk(content))).toBe("Wa alaikum");
+  });
+
+  it("returns nothing for a chunk without text", () => {
+    expect(getAgentToken(chunk([{ index: 0, type: "input_json_delta", input: "{}" }]))).toBe("");
+  });
+
+  it("ignores other nodes and events", () => {
+    expect(getAgentToken(chunk("Summary", "summarize"))).toBe("");
+    expect(getAgentToken({ ...chunk("x"), event: "on_chat_model_end" } as StreamEvent)).toBe("");
+  });
+});
@@ -5,15 +5,15 @@ import {
   SystemMessage,
   trimMessages,
 } from "@langchain/core/messages";
-import { ChatGroq } from "@langchain/groq";
 import {
+  Annotation,
   END,
   MessagesAnnotation,
   START,
   StateGraph,
 } from "@langchain/langgraph";
-import { MemorySaver } from "@langchain/langgraph";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
+import type { StreamEvent } from "@langchain/core/tracers/log_stream";
 import wxflows from "@wxflows/sdk/langchain";
 import {
   ChatPromptTemplate,
@@ -21,16 +21,16 @@ import {
 } from "@langchain/core/prompts";
 import SYSTEM_MESSAGE from "@/constants/systemMessage";
 import { islamicTools } from "./islamicTools";
+import { ConvexCheckpointer } from "./convexCheckpointer";
+import { getConvexClient, getServiceIdentity } from "./convex";
+import { countTokens, splitHistory, summarizeMessages } from "./contextWindow";
+import { createChatModel, ModelConfig, resolveModel } from "./models";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
 
-// Trim the messages to manage conversation history
-const trimmer = trimMessages({
-  maxTokens: 10,
-  strategy: "last",
-  tokenCounter: (msgs) => msgs.length,
-  includeSystem: true,
-  allowPartial: false,
-  startOn: "human",
-});
+// Added to the system prompt for models that cannot call tools
+const NO_TOOLS_NOTE = `## Tools Unavailable
+The tools listed above are not available with the current model. Answer from your own knowledge, and when you cite the Quran or hadith give the reference so the user can verify it.`;
 
 // Connect to wxflows
 const toolClient = new wxflows({
@@ -43,42 +43,62 @@ const wxflowsTools = await toolClient.lcTools;
 const allTools = [...wxflowsTools, ...islamicTools];
 const toolNode = new ToolNode(allTools);
 
-// Connect to the LLM provider with better tool instructions
-const initialiseModel = () => {
-  const model = new ChatGroq({
-    model: "llama3-70b-8192",
-    apiKey: process.env.GROQ_API_KEY,
-    temperature: 0.7,
-    maxTokens: 4096,
-    streaming: true,
-    callbacks: [
-      {
-        handleLLMStart: async () => {
-          // console.log("🤖 Starting LLM call");
-        },
-        handleLLMEnd: async (output) => {
-          // console.log("🤖 End LLM call", output);
-          const usage = output.llmOutput?.usage;
-          if (usage) {
-            // console.log("📊 Token Usage:", {
-            //   input_tokens: usage.input_tokens,
-            //   output_tokens: usage.output_tokens,
-            //   total_tokens: usage.input_tokens + usage.output_tokens,
-            // });
-          }
-        },
-        // handleLLMNewToken: async (token: string) => {
-        //   // console.log("🔤 New token:", token);
-        // },
+// Connect to the LLM provider selected for the chat
+const initialiseModel = (config: ModelConfig) => {
+  const model = createChatModel(config, [
+    {
+      handleLLMStart: async () => {
+        // console.log("🤖 Starting LLM call");
+      },
+      handleLLMEnd: async (output) => {
+        // console.log("🤖 End LLM call", output);
+        const usage = output.llmOutput?.usage;
+        if (usage) {
+          // console.log("📊 Token Usage:", {
+          //   input_tokens: usage.input_tokens,
+          //   output_tokens: usage.output_tokens,
+          //   total_tokens: usage.input_tokens + usage.output_tokens,
+          // });
+        }
       },
-    ],
-  }).bindTools(allTools);
+      // handleLLMNewToken: async (token: string) => {
+      //   // console.log("🔤 New token:", token);
+      // },
+    },
+  ]);
 
   return model;
 };
 
+// The conversation plus a running summary of the turns up to and including
+// the message with id `summarizedUntil`
+const ChatState = Annotation.Root({
+  ...MessagesAnnotation.spec,
+  summary: Annotation<string>({ reducer: (_, next) => next, default: () => "" }),
+  summarizedUntil: Annotation<string>({ reducer: (_, next) => next, default: () => "" }),
+});
+
+// Messages not yet folded into the summary
+const unsummarized = ({ messages, summarizedUntil }: typeof ChatState.State) => {
+  const index = summarizedUntil ? messages.findIndex((message) => message.id === summarizedUntil) : -1;
+  return messages.slice(index + 1);
+};
+
+// Keep the chat record's copy of the summary in sync so the UI can show it
+const saveSummary = async (chatId: string, userId: string, summary: string) => {
+  try {
+    await getConvexClient().mutation(api.chats.updateSummary, {
+      id: chatId as Id<"chats">,
+      summary,
+      service: getServiceIdentity(userId),
+    });
+  } catch (error) {
+    console.error("Failed to save conversation summary:", error);
+  }
+};
+
 // Define the function that determines whether to continue or not
-function shouldContinue(state: typeof MessagesAnnotation.State) {
+function shouldContinue(state: typeof ChatState.State) {
   const messages = state.messages;
   const lastMessage = messages[messages.length - 1] as AIMessage;
 
@@ -96,14 +116,50 @@ function shouldContinue(state: typeof MessagesAnnotation.State) {
   return END;
 }
 
-// Define a new graph
-const createWorkflow = () => {
-  const model = initialiseModel();
+// Define a new graph. Tools are used when the model supports them, unless
+// `useTools` turns them off
+const createWorkflow = (modelConfig: ModelConfig, useTools = modelConfig.supportsTools) => {
+  const model = initialiseModel(modelConfig);
+  const toolsEnabled = useTools && modelConfig.supportsTools;
+  const modelWithTools = toolsEnabled && model.bindTools ? model.bindTools(allTools) : model;
+  const { model: modelName, contextTokens } = modelConfig;
+
+  // Trim the messages to the context budget. Older turns are normally folded
+  // into the summary first, so this only bites when a single turn is too long
+  const trimmer = trimMessages({
+    maxTokens: contextTokens,
+    strategy: "last",
+    tokenCounter: (msgs) => countTokens(modelName, msgs),
+    includeSystem: true,
+    allowPartial: false,
+    startOn: "human",
+  });
 
-  return new StateGraph(MessagesAnnotation)
-    .addNode("agent", async (state) => {
-      // Create the system message content
-      const systemContent = SYSTEM_MESSAGE;
+  return new StateGraph(ChatState)
+    .addNode("summarize", async (state, config) => {
+      // Fold older turns into the summary once the conversation outgrows
+      // the context budget
+      const { older } = await splitHistory(modelName, unsummarized(state), contextTokens);
+      if (!older.length) return {};
+
+      const summary = await summarizeMessages(model, modelName, state.summary, older, contextTokens);
+      // Runs without a chat (see submitCompletion) have nowhere to save it
+      if (config.configurable?.user_id) {
+        await saveSummary(config.configurable.thread_id, config.configurable.user_id, summary);
+      }
+
+      return { summary, summarizedUntil: older.at(-1)?.id ?? "" };
+    })
+    .addNode("agent", async (state, config) => {
+      // Create the system message content, with the caller's instructions
+      // and the summary of earlier turns
+      const instructions: string | undefined = config.configurable?.instructions;
+      const systemContent = [
+        SYSTEM_MESSAGE,
+        ...(toolsEnabled ? [] : [NO_TOOLS_NOTE]),
+        ...(instructions ? [`## Additional Instructions\n${instructions}`] : []),
+        ...(state.summary ? [`## Earlier in This Conversation\n${state.summary}`] : []),
+      ].join("\n\n");
 
       // Create the prompt template with system message and messages placeholder
       const promptTemplate = ChatPromptTemplate.fromMessages([
@@ -114,18 +170,19 @@ const createWorkflow = () => {
       ]);
 
       // Trim the messages to manage conversation history
-      const trimmedMessages = await trimmer.invoke(state.messages);
+      const trimmedMessages = await trimmer.invoke(unsummarized(state));
 
       // Format the prompt with the current messages
       const prompt = await promptTemplate.invoke({ messages: trimmedMessages });
 
       // Get response from the model
-      const response = await model.invoke(prompt);
+      const response = await modelWithTools.invoke(prompt);
 
       return { messages: [response] };
     })
     .addNode("tools", toolNode)
-    .addEdge(START, "agent")
+    .addEdge(START, "summarize")
+    .addEdge("summarize", "agent")
     .addConditionalEdges("agent", shouldContinue)
     .addEdge("tools", "agent");
 };
@@ -160,26 +217,153 @@ function addCachingHeaders(messages: BaseMessage[]): BaseMessage[] {
   return cachedMessages;
 }
 
-export async function submitQuestion(messages: BaseMessage[], chatId: string) {
+// Checkpoints are stored in Convex so each chat's thread persists. The
+// checkpointer acts as the chat's owner, so it can only reach their chats
+const getCheckpointer = (userId: string) =>
+  new ConvexCheckpointer(getConvexClient(), getServiceIdentity(userId));
+
+const compileWorkflow = (modelConfig: ModelConfig, userId: string) =>
+  createWorkflow(modelConfig).compile({ checkpointer: getCheckpointer(userId) });
+
+export interface SubmitOptions {
+  // Registry id of the chat's model; the default model when omitted
+  modelId?: string;
+  // Resume from this checkpoint instead of the latest one
+  checkpointId?: string;
+  // Stops the run, including any tool requests in flight
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the agent on a chat's thread. If the thread has been checkpointed,
+ * only the last of `messages` (the new question) is sent and the rest of
+ * the conversation comes from the stored state; otherwise `messages` seeds
+ * the thread. Passing `checkpointId` resumes from that earlier checkpoint
+ * instead of the latest one, forking the thread from there.
+ */
+export async function submitQuestion(
+  messages: BaseMessage[],
+  chatId: string,
+  userId: string,
+  { modelId, checkpointId, signal }: SubmitOptions = {}
+) {
+  const configurable = { thread_id: chatId, user_id: userId, checkpoint_id: checkpointId };
+  const saved = await getCheckpointer(userId).getTuple({ configurable });
+  if (checkpointId && !saved) {
+    throw new Error(`Checkpoint ${checkpointId} not found for chat ${chatId}`);
+  }
+
   // Add caching headers to messages
-  const cachedMessages = addCachingHeaders(messages);
+  const cachedMessages = addCachingHeaders(saved ? messages.slice(-1) : messages);
   // console.log("🔒🔒🔒 Messages:", cachedMessages);
 
-  // Create workflow with chatId and onToken callback
-  const workflow = createWorkflow();
-
-  // Create a checkpoint to save the state of the conversation
-  const checkpointer = new MemorySaver();
-  const app = workflow.compile({ checkpointer });
+  const app = compileWorkflow(resolveModel(modelId), userId);
 
   const stream = await app.streamEvents(
     { messages: cachedMessages },
     {
       version: "v2",
-      configurable: { thread_id: chatId },
+      configurable,
       streamMode: "messages",
       runId: chatId,
+      signal,
     }
   );
   return stream;
 }
+
+export interface CompletionOptions {
+  // Registry id of the model; the default model when omitted
+  modelId?: string;
+  // Set to false to answer without calling tools
+  tools?: boolean;
+  // Extra system instructions from the caller
+  instructions?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the agent on a conversation supplied in full by the caller, as the
+ * OpenAI-compatible API does. Nothing is checkpointed or saved to a chat.
+ */
+export async function submitCompletion(
+  messages: BaseMessage[],
+  { modelId, tools = true, instructions, signal }: CompletionOptions = {}
+) {
+  const modelConfig = resolveModel(modelId);
+  const app = createWorkflow(modelConfig, tools).compile();
+
+  return app.streamEvents(
+    { messages: addCachingHeaders(messages) },
+    {
+      version: "v2",
+      configurable: { thread_id: crypto.randomUUID(), instructions },
+      streamMode: "messages",
+      signal,
+    }
+  );
+}
+
+/**
+ * Returns the text of a token streamed by the agent, or "" for any other
+ * event. The summarizer also runs a chat model inside the graph, and its
+ * tokens are not part of the reply
+ */
+export function getAgentToken(event: StreamEvent) {
+  if (event.event !== "on_chat_model_stream" || event.metadata?.langgraph_node !== "agent") {
+    return "";
+  }
+
+  const content = event.data?.chunk?.content;
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    // Other parts, such as tool call inputs and thinking, are not reply text
+    return content
+      .map((part) =>
+        typeof part === "string"
+          ? part
+          : part?.type === "text" && typeof part.text === "string"
+            ? part.text
+            : ""
+      )
+      .join("");
+  }
+  return "";
+}
+
+/**
+ * Lists the stored graph states of a chat's thread, newest first
+ */
+export async function getThreadHistory(chatId: string, userId: string, limit = 20) {
+  const app = compileWorkflow(resolveModel(), userId);
+  const states = [];
+  for await (const state of app.getStateHistory({ configurable: { thread_id: chatId } }, { limit })) {
+    states.push(state);
+  }
+  return states;
+}
+
+/**
+ * Rebuilds a chat's summary from scratch out of every turn that no longer
+ * fits the context budget, and returns it (empty if everything fits)
+ */
+export async function refreshSummary(chatId: string, userId: string, modelId?: string) {
+  const modelConfig = resolveModel(modelId);
+  const app = compileWorkflow(modelConfig, userId);
+  const config = { configurable: { thread_id: chatId, user_id: userId } };
+
+  const { values } = await app.getState(config);
+  const messages: BaseMessage[] = values.messages ?? [];
+  if (!messages.length) return "";
+
+  const { model: modelName, contextTokens } = modelConfig;
+  const { older } = await splitHistory(modelName, messages, contextTokens);
+  const summary = older.length
+    ? await summarizeMessages(initialiseModel(modelConfig), modelName, "", older, contextTokens)
+    : "";
+
+  await app.updateState(config, { summary, summarizedUntil: older.at(-1)?.id ?? "" }, "summarize");
+  await saveSummary(chatId, userId, summary);
+
+  return summary;
+}
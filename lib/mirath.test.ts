@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { calculateMirath, formatFraction, MirathResult } from "./mirath";
+
+// Shares as "heir: fraction" for compact comparison
+const shares = ({ shares }: MirathResult) =>
+  Object.fromEntries(shares.map(({ heir, share }) => [heir, formatFraction(share)]));
+
+const blockers = ({ blocked }: MirathResult) =>
+  Object.fromEntries(blocked.map(({ heir, blockedBy }) => [heir, blockedBy]));
+
+describe("calculateMirath", () => {
+  describe("'Umariyyatan", () => {
+    it("gives the mother a third of what the husband leaves", () => {
+      const result = calculateMirath({ husband: 1, father: 1, mother: 1 });
+      expect(shares(result)).toEqual({ husband: "1/2", mother: "1/6", father: "1/3" });
+      expect(result.rules[0]).toMatch(/^'Umariyyatan/);
+    });
+
+    it("gives the mother a third of what the wife leaves", () => {
+      const result = calculateMirath({ wife: 1, father: 1, mother: 1 });
+      expect(shares(result)).toEqual({ wife: "1/4", mother: "1/4", father: "1/2" });
+    });
+
+    it("does not apply with another heir present", () => {
+      const result = calculateMirath({ husband: 1, father: 1, mother: 1, daughter: 1 });
+      expect(result.rules.some((rule) => rule.startsWith("'Umariyyatan"))).toBe(false);
+    });
+  });
+
+  describe("'awl", () => {
+    it("raises the base of 24 to 27 in al-Minbariyyah", () => {
+      const result = calculateMirath({ wife: 1, daughter: 2, father: 1, mother: 1 }, 27000);
+      expect(shares(result)).toEqual({
+        wife: "1/9",
+        daughter: "16/27",
+        father: "4/27",
+        mother: "4/27",
+      });
+      expect(result.shares.find(({ heir }) => heir === "wife")?.amount).toBe(3000);
+      expect(result.rules).toContain(
+        "'Awl: the fixed shares add up to 9/8 of the estate, so the base of 24 is raised to 27 and every share is reduced proportionally."
+      );
+    });
+
+    it("raises the base of 6 to 7 for a husband and two full sisters", () => {
+      const result = calculateMirath({ husband: 1, fullSister: 2 });
+      expect(shares(result)).toEqual({ husband: "3/7", fullSister: "4/7" });
+    });
+  });
+
+  describe("radd", () => {
+    it("returns the surplus to the fixed-share heirs", () => {
+      const result = calculateMirath({ mother: 1, daughter: 1 });
+      expect(shares(result)).toEqual({ daughter: "3/4", mother: "1/4" });
+      expect(result.rules[0]).toMatch(/^Radd:/);
+    });
+
+    it("leaves the spouse's share out of the return", () => {
+      const result = calculateMirath({ husband: 1, mother: 1, daughter: 1 });
+      expect(shares(result)).toEqual({ husband: "1/4", daughter: "9/16", mother: "3/16" });
+      expect(result.rules[0]).toContain("spouses do not take part in radd");
+    });
+
+    it("returns the remainder to a spouse with no other heirs", () => {
+      const result = calculateMirath({ wife: 1 });
+      expect(shares(result)).toEqual({ wife: "1" });
+      expect(result.unallocated.numerator).toBe(0);
+    });
+  });
+
+  describe("mushtarakah", () => {
+    const survivors = { husband: 1, mother: 1, maternalHalfBrother: 2, fullBrother: 1 };
+
+    it.each(["hanafi", "hanbali"] as const)("leaves the full brother nothing under the %s school", (madhhab) => {
+      const result = calculateMirath(survivors, 0, madhhab);
+      expect(shares(result)).toEqual({ husband: "1/2", mother: "1/6", maternalHalfBrother: "1/3" });
+      expect(result.rules[0]).toMatch(/nothing remains for the residuaries \(full brother\)/);
+    });
+
+    it.each(["shafii", "maliki"] as const)("shares the third with the full brother under the %s school", (madhhab) => {
+      const result = calculateMirath(survivors, 0, madhhab);
+      expect(shares(result)).toEqual({
+        husband: "1/2",
+        mother: "1/6",
+        fullBrother: "1/9",
+        maternalHalfBrother: "2/9",
+      });
+      expect(result.rules[0]).toMatch(/^Mushtarakah/);
+    });
+
+    it("shares equally between full brothers and sisters", () => {
+      const result = calculateMirath({ ...survivors, fullSister: 1 }, 0, "shafii");
+      expect(shares(result)).toMatchObject({ fullBrother: "1/12", fullSister: "1/12", maternalHalfBrother: "1/6" });
+    });
+
+    it("does not apply when something remains for the full siblings", () => {
+      const result = calculateMirath({ wife: 1, mother: 1, maternalHalfBrother: 2, fullBrother: 1 }, 0, "shafii");
+      expect(shares(result)).toEqual({
+        wife: "1/4",
+        fullBrother: "1/4",
+        mother: "1/6",
+        maternalHalfBrother: "1/3",
+      });
+    });
+  });
+
+  describe("daughters and son's daughters", () => {
+    it("gives a son's daughter 1/6 to complete two thirds with one daughter", () => {
+      const result = calculateMirath({ daughter: 1, sonsDaughter: 1, fullBrother: 1 });
+      expect(shares(result)).toEqual({ daughter: "1/2", sonsDaughter: "1/6", fullBrother: "1/3" });
+    });
+
+    it("excludes son's daughters when two daughters take two thirds", () => {
+      const result = calculateMirath({ daughter: 2, sonsDaughter: 1, fullBrother: 1 });
+      expect(shares(result)).toEqual({ daughter: "2/3", fullBrother: "1/3" });
+      expect(blockers(result)).toEqual({ sonsDaughter: "two or more daughters" });
+    });
+
+    it("makes son's daughters residuaries with a son's son", () => {
+      const result = calculateMirath({ daughter: 2, sonsSon: 1, sonsDaughter: 1 });
+      expect(shares(result)).toEqual({ daughter: "2/3", sonsSon: "2/9", sonsDaughter: "1/9" });
+    });
+  });
+
+  describe("hajb of siblings", () => {
+    it("excludes all siblings by a son", () => {
+      const result = calculateMirath({ son: 1, fullBrother: 1, fullSister: 1, maternalHalfSister: 1 });
+      expect(shares(result)).toEqual({ son: "1" });
+      expect(blockers(result)).toEqual({ fullBrother: "son", fullSister: "son", maternalHalfSister: "son" });
+    });
+
+    it("excludes siblings by the father, who still reduce the mother to 1/6", () => {
+      const result = calculateMirath({ father: 1, mother: 1, fullBrother: 2 });
+      expect(shares(result)).toEqual({ father: "5/6", mother: "1/6" });
+      expect(blockers(result)).toEqual({ fullBrother: "father" });
+    });
+
+    it("excludes paternal half siblings by a full brother", () => {
+      const result = calculateMirath({ fullBrother: 1, paternalHalfBrother: 1, paternalHalfSister: 1 });
+      expect(shares(result)).toEqual({ fullBrother: "1" });
+      expect(blockers(result)).toEqual({ paternalHalfBrother: "full brother", paternalHalfSister: "full brother" });
+    });
+  });
+
+  it("rejects impossible survivors", () => {
+    expect(() => calculateMirath({ husband: 1, wife: 1 })).toThrow("both a husband and a wife");
+    expect(() => calculateMirath({ wife: 5 })).toThrow("more than four wives");
+    expect(() => calculateMirath({ father: 2 })).toThrow("only be one father");
+    expect(() => calculateMirath({ son: 1.5 })).toThrow("whole number");
+  });
+});
@@ -0,0 +1,485 @@
+/**
+ * Islamic inheritance (fara'id) with exact fractions: fixed shares, residuary
+ * heirs ('asabah), exclusion (hajb), proportional reduction ('awl) and
+ * return of the surplus (radd).
+ *
+ * Follows the Hanafi school where the schools differ: the paternal
+ * grandfather excludes siblings like the father, and any surplus left after
+ * the fixed shares is returned to the heirs other than the spouses. The
+ * school can be chosen for mushtarakah, where the Shafi'i and Maliki schools
+ * let full siblings share the third of the maternal half siblings.
+ */
+
+export type Madhhab = "hanafi" | "maliki" | "shafii" | "hanbali";
+
+export type Heir =
+  | "husband"
+  | "wife"
+  | "son"
+  | "daughter"
+  | "sonsSon"
+  | "sonsDaughter"
+  | "father"
+  | "mother"
+  | "paternalGrandfather"
+  | "paternalGrandmother"
+  | "maternalGrandmother"
+  | "fullBrother"
+  | "fullSister"
+  | "paternalHalfBrother"
+  | "paternalHalfSister"
+  | "maternalHalfBrother"
+  | "maternalHalfSister"
+  | "fullBrothersSon"
+  | "paternalHalfBrothersSon"
+  | "fullPaternalUncle"
+  | "paternalHalfPaternalUncle"
+  | "fullPaternalUnclesSon"
+  | "paternalHalfPaternalUnclesSon";
+
+export const HEIR_LABELS: Record<Heir, [string, string]> = {
+  husband: ["Husband", "Husband"],
+  wife: ["Wife", "Wives"],
+  son: ["Son", "Sons"],
+  daughter: ["Daughter", "Daughters"],
+  sonsSon: ["Son's son", "Son's sons"],
+  sonsDaughter: ["Son's daughter", "Son's daughters"],
+  father: ["Father", "Father"],
+  mother: ["Mother", "Mother"],
+  paternalGrandfather: ["Paternal grandfather", "Paternal grandfather"],
+  paternalGrandmother: ["Paternal grandmother", "Paternal grandmother"],
+  maternalGrandmother: ["Maternal grandmother", "Maternal grandmother"],
+  fullBrother: ["Full brother", "Full brothers"],
+  fullSister: ["Full sister", "Full sisters"],
+  paternalHalfBrother: ["Paternal half brother", "Paternal half brothers"],
+  paternalHalfSister: ["Paternal half sister", "Paternal half sisters"],
+  maternalHalfBrother: ["Maternal half brother", "Maternal half brothers"],
+  maternalHalfSister: ["Maternal half sister", "Maternal half sisters"],
+  fullBrothersSon: ["Full brother's son", "Full brother's sons"],
+  paternalHalfBrothersSon: ["Paternal half brother's son", "Paternal half brother's sons"],
+  fullPaternalUncle: ["Full paternal uncle", "Full paternal uncles"],
+  paternalHalfPaternalUncle: ["Paternal half paternal uncle", "Paternal half paternal uncles"],
+  fullPaternalUnclesSon: ["Full paternal uncle's son", "Full paternal uncle's sons"],
+  paternalHalfPaternalUnclesSon: ["Paternal half paternal uncle's son", "Paternal half paternal uncle's sons"],
+};
+
+// Heirs who can only be one person
+const SINGLE_HEIRS: Heir[] = [
+  "husband",
+  "father",
+  "mother",
+  "paternalGrandfather",
+  "paternalGrandmother",
+  "maternalGrandmother",
+];
+
+export type Survivors = Partial<Record<Heir, number>>;
+
+export interface Fraction {
+  numerator: number;
+  denominator: number;
+}
+
+export interface HeirShare {
+  heir: Heir;
+  count: number;
+  // Share of the whole estate for the group, and for each person in it
+  share: Fraction;
+  perPerson: Fraction;
+  amount: number;
+  perPersonAmount: number;
+  basis: string;
+}
+
+export interface BlockedHeir {
+  heir: Heir;
+  count: number;
+  blockedBy: string;
+}
+
+export interface MirathResult {
+  shares: HeirShare[];
+  blocked: BlockedHeir[];
+  // Portion with no heir, e.g. when only distant relatives survive
+  unallocated: Fraction;
+  rules: string[];
+}
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : Math.abs(a));
+
+const fraction = (numerator: number, denominator = 1): Fraction => {
+  const divisor = gcd(numerator, denominator) || 1;
+  return { numerator: numerator / divisor, denominator: denominator / divisor };
+};
+
+const add = (a: Fraction, b: Fraction) =>
+  fraction(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator);
+const subtract = (a: Fraction, b: Fraction) =>
+  add(a, { numerator: -b.numerator, denominator: b.denominator });
+const multiply = (a: Fraction, b: Fraction) =>
+  fraction(a.numerator * b.numerator, a.denominator * b.denominator);
+const divide = (a: Fraction, b: Fraction) =>
+  fraction(a.numerator * b.denominator, a.denominator * b.numerator);
+const sum = (fractions: Fraction[]) => fractions.reduce(add, fraction(0));
+const compare = (a: Fraction, b: Fraction) =>
+  a.numerator * b.denominator - b.numerator * a.denominator;
+
+export const formatFraction = ({ numerator, denominator }: Fraction) =>
+  denominator === 1 ? String(numerator) : `${numerator}/${denominator}`;
+
+const ZERO = fraction(0);
+const ONE = fraction(1);
+
+interface Allocation {
+  heir: Heir;
+  share: Fraction;
+  basis: string;
+}
+
+/**
+ * Divides an estate between the surviving relatives of the deceased
+ */
+export const calculateMirath = (
+  survivors: Survivors,
+  estate = 0,
+  madhhab: Madhhab = "hanafi"
+): MirathResult => {
+  const count = (heir: Heir) => survivors[heir] ?? 0;
+
+  for (const [heir, value] of Object.entries(survivors) as [Heir, number][]) {
+    if (!HEIR_LABELS[heir]) {
+      throw new Error(`Unknown heir '${heir}'.`);
+    }
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`The number of ${HEIR_LABELS[heir][1].toLowerCase()} must be a whole number.`);
+    }
+    if (SINGLE_HEIRS.includes(heir) && value > 1) {
+      throw new Error(`There can only be one ${HEIR_LABELS[heir][0].toLowerCase()}.`);
+    }
+  }
+  if (count("husband") && count("wife")) {
+    throw new Error("The deceased cannot leave both a husband and a wife.");
+  }
+  if (count("wife") > 4) {
+    throw new Error("The deceased cannot leave more than four wives.");
+  }
+  if (estate < 0) {
+    throw new Error("The estate cannot be negative.");
+  }
+
+  const rules: string[] = [];
+  const blocked: BlockedHeir[] = [];
+  const present = new Set(
+    (Object.keys(HEIR_LABELS) as Heir[]).filter((heir) => count(heir) > 0)
+  );
+
+  const block = (heir: Heir, blockedBy: string) => {
+    if (present.delete(heir)) {
+      blocked.push({ heir, count: count(heir), blockedBy });
+    }
+  };
+  const label = (heir: Heir) => HEIR_LABELS[heir][count(heir) > 1 ? 1 : 0].toLowerCase();
+
+  // Exclusion (hajb), nearest relatives first so that an excluded heir
+  // cannot exclude anyone else
+  if (present.has("son")) {
+    block("sonsSon", "son");
+    block("sonsDaughter", "son");
+  }
+  if (present.has("father")) block("paternalGrandfather", "father");
+  if (present.has("mother")) {
+    block("paternalGrandmother", "mother");
+    block("maternalGrandmother", "mother");
+  }
+  if (present.has("father")) block("paternalGrandmother", "father");
+  if (count("daughter") >= 2 && !present.has("sonsSon")) {
+    block("sonsDaughter", "two or more daughters");
+  }
+
+  const maleDescendant = present.has("son") || present.has("sonsSon");
+  const femaleDescendant = present.has("daughter") || present.has("sonsDaughter");
+  const descendant = maleDescendant || femaleDescendant;
+  const maleAscendant = present.has("father") ? "father" : present.has("paternalGrandfather") ? "paternal grandfather" : null;
+
+  const siblingBlocker = maleDescendant
+    ? present.has("son") ? "son" : "son's son"
+    : maleAscendant;
+  const siblings: Heir[] = [
+    "fullBrother",
+    "fullSister",
+    "paternalHalfBrother",
+    "paternalHalfSister",
+  ];
+  if (siblingBlocker) {
+    siblings.forEach((heir) => block(heir, siblingBlocker));
+  }
+  if (descendant || maleAscendant) {
+    const blocker = descendant
+      ? present.has("son") ? "son" : present.has("daughter") ? "daughter" : present.has("sonsSon") ? "son's son" : "son's daughter"
+      : maleAscendant!;
+    block("maternalHalfBrother", blocker);
+    block("maternalHalfSister", blocker);
+  }
+
+  // A full sister with daughters becomes a residuary in place of a brother
+  const fullSisterWithDaughters =
+    present.has("fullSister") && !present.has("fullBrother") && femaleDescendant;
+  if (present.has("fullBrother")) {
+    block("paternalHalfBrother", "full brother");
+    block("paternalHalfSister", "full brother");
+  }
+  if (fullSisterWithDaughters) {
+    block("paternalHalfBrother", "full sister (residuary with daughters)");
+    block("paternalHalfSister", "full sister (residuary with daughters)");
+  }
+  if (count("fullSister") >= 2 && !present.has("paternalHalfBrother")) {
+    block("paternalHalfSister", "two or more full sisters");
+  }
+  const paternalHalfSisterWithDaughters =
+    present.has("paternalHalfSister") && !present.has("paternalHalfBrother") && femaleDescendant;
+
+  // Remaining male residuaries, each excluding everyone after it
+  const residuaryOrder: Heir[] = [
+    "fullBrothersSon",
+    "paternalHalfBrothersSon",
+    "fullPaternalUncle",
+    "paternalHalfPaternalUncle",
+    "fullPaternalUnclesSon",
+    "paternalHalfPaternalUnclesSon",
+  ];
+  const nearerResiduary = (
+    ["son", "sonsSon", "father", "paternalGrandfather", "fullBrother", "paternalHalfBrother"] as Heir[]
+  ).find((heir) => present.has(heir));
+  let closest: string | undefined = nearerResiduary
+    ? HEIR_LABELS[nearerResiduary][0].toLowerCase()
+    : fullSisterWithDaughters
+      ? "full sister (residuary with daughters)"
+      : paternalHalfSisterWithDaughters
+        ? "paternal half sister (residuary with daughters)"
+        : undefined;
+  for (const heir of residuaryOrder) {
+    if (closest) {
+      block(heir, closest);
+    } else if (present.has(heir)) {
+      closest = HEIR_LABELS[heir][0].toLowerCase();
+    }
+  }
+
+  // Fixed shares (fara'id)
+  const fixed: Allocation[] = [];
+  const addFixed = (heir: Heir, share: Fraction, basis: string) =>
+    fixed.push({ heir, share, basis });
+
+  if (present.has("husband")) {
+    addFixed("husband", descendant ? fraction(1, 4) : fraction(1, 2),
+      descendant ? "1/4 as the deceased left descendants" : "1/2 as the deceased left no descendants");
+  }
+  if (present.has("wife")) {
+    addFixed("wife", descendant ? fraction(1, 8) : fraction(1, 4),
+      `${descendant ? "1/8 as the deceased left descendants" : "1/4 as the deceased left no descendants"}${count("wife") > 1 ? ", shared equally" : ""}`);
+  }
+
+  const siblingCount =
+    count("fullBrother") + count("fullSister") + count("paternalHalfBrother") +
+    count("paternalHalfSister") + count("maternalHalfBrother") + count("maternalHalfSister");
+  const spouse: Heir | null = present.has("husband") ? "husband" : present.has("wife") ? "wife" : null;
+
+  if (present.has("mother")) {
+    if (descendant) {
+      addFixed("mother", fraction(1, 6), "1/6 as the deceased left descendants");
+    } else if (siblingCount >= 2) {
+      addFixed("mother", fraction(1, 6), "1/6 as the deceased left two or more siblings");
+    } else if (spouse && present.has("father") && present.size === 3) {
+      // al-'Umariyyatan: the mother takes a third of what the spouse leaves
+      const spouseShare = fixed.find(({ heir }) => heir === spouse)!.share;
+      addFixed("mother", multiply(subtract(ONE, spouseShare), fraction(1, 3)),
+        "1/3 of the remainder after the spouse's share");
+      rules.push("'Umariyyatan: with only a spouse and the father, the mother takes a third of what remains after the spouse so the father receives twice her share.");
+    } else {
+      addFixed("mother", fraction(1, 3), "1/3 as there are no descendants and fewer than two siblings");
+    }
+  }
+
+  const grandmothers = (["paternalGrandmother", "maternalGrandmother"] as Heir[]).filter((heir) => present.has(heir));
+  for (const heir of grandmothers) {
+    addFixed(heir, fraction(1, 6 * grandmothers.length),
+      grandmothers.length > 1 ? "1/6 shared between the grandmothers" : "1/6 in place of the mother");
+  }
+
+  for (const [heir, title] of [["father", "father"], ["paternalGrandfather", "paternal grandfather"]] as [Heir, string][]) {
+    if (present.has(heir) && descendant) {
+      addFixed(heir, fraction(1, 6),
+        maleDescendant ? "1/6 as the deceased left male descendants" : `1/6, plus the residue as the nearest male relative`);
+      if (!maleDescendant) {
+        rules.push(`The ${title} takes 1/6 and, with only female descendants, also the residue.`);
+      }
+    }
+  }
+
+  if (present.has("daughter") && !present.has("son")) {
+    addFixed("daughter", count("daughter") > 1 ? fraction(2, 3) : fraction(1, 2),
+      count("daughter") > 1 ? "2/3 shared by two or more daughters" : "1/2 for a single daughter");
+  }
+  if (present.has("sonsDaughter") && !present.has("sonsSon")) {
+    if (present.has("daughter")) {
+      addFixed("sonsDaughter", fraction(1, 6), "1/6 completing two thirds with the daughter");
+    } else {
+      addFixed("sonsDaughter", count("sonsDaughter") > 1 ? fraction(2, 3) : fraction(1, 2),
+        count("sonsDaughter") > 1 ? "2/3 shared, in place of daughters" : "1/2, in place of a daughter");
+    }
+  }
+  if (present.has("fullSister") && !present.has("fullBrother") && !fullSisterWithDaughters) {
+    addFixed("fullSister", count("fullSister") > 1 ? fraction(2, 3) : fraction(1, 2),
+      count("fullSister") > 1 ? "2/3 shared by two or more full sisters" : "1/2 for a single full sister");
+  }
+  if (present.has("paternalHalfSister") && !present.has("paternalHalfBrother") && !paternalHalfSisterWithDaughters) {
+    if (present.has("fullSister")) {
+      addFixed("paternalHalfSister", fraction(1, 6), "1/6 completing two thirds with the full sister");
+    } else {
+      addFixed("paternalHalfSister", count("paternalHalfSister") > 1 ? fraction(2, 3) : fraction(1, 2),
+        count("paternalHalfSister") > 1 ? "2/3 shared, in place of full sisters" : "1/2, in place of a full sister");
+    }
+  }
+
+  const maternalHalfSiblings = (["maternalHalfBrother", "maternalHalfSister"] as Heir[]).filter((heir) => present.has(heir));
+  const maternalHalfCount = maternalHalfSiblings.reduce((total, heir) => total + count(heir), 0);
+  for (const heir of maternalHalfSiblings) {
+    addFixed(heir,
+      maternalHalfCount > 1 ? fraction(count(heir), 3 * maternalHalfCount) : fraction(1, 6),
+      maternalHalfCount > 1 ? "1/3 shared equally by the maternal half siblings, male and female alike" : "1/6 for a single maternal half sibling");
+  }
+
+  // Residuaries ('asabah): the nearest group takes what is left, males
+  // receiving twice the share of females
+  let residuaries: [Heir, number][] = [];
+  let residuaryBasis = "";
+  if (present.has("son")) {
+    residuaries = [["son", 2], ["daughter", 1]];
+    residuaryBasis = present.has("daughter") ? "Residue, sons taking twice the share of daughters" : "Residue as the nearest male relatives";
+  } else if (present.has("sonsSon")) {
+    residuaries = [["sonsSon", 2], ["sonsDaughter", 1]];
+    residuaryBasis = present.has("sonsDaughter") ? "Residue, son's sons taking twice the share of son's daughters" : "Residue as the nearest male relatives";
+  } else if (maleAscendant) {
+    residuaries = [[present.has("father") ? "father" : "paternalGrandfather", 1]];
+    residuaryBasis = "Residue as the nearest male relative";
+  } else if (present.has("fullBrother")) {
+    residuaries = [["fullBrother", 2], ["fullSister", 1]];
+    residuaryBasis = present.has("fullSister") ? "Residue, brothers taking twice the share of sisters" : "Residue as the nearest male relatives";
+  } else if (fullSisterWithDaughters) {
+    residuaries = [["fullSister", 1]];
+    residuaryBasis = "Residue, as sisters become residuaries with daughters";
+  } else if (present.has("paternalHalfBrother")) {
+    residuaries = [["paternalHalfBrother", 2], ["paternalHalfSister", 1]];
+    residuaryBasis = present.has("paternalHalfSister") ? "Residue, brothers taking twice the share of sisters" : "Residue as the nearest male relatives";
+  } else if (paternalHalfSisterWithDaughters) {
+    residuaries = [["paternalHalfSister", 1]];
+    residuaryBasis = "Residue, as sisters become residuaries with daughters";
+  } else {
+    const heir = residuaryOrder.find((candidate) => present.has(candidate));
+    if (heir) {
+      residuaries = [[heir, 1]];
+      residuaryBasis = "Residue as the nearest male relatives";
+    }
+  }
+  residuaries = residuaries.filter(([heir]) => present.has(heir));
+
+  // Mushtarakah (al-Himariyyah): the fixed shares leave nothing for the full
+  // siblings, who share the third of the maternal half siblings equally
+  // under the Shafi'i and Maliki schools as children of the same mother
+  if (
+    (madhhab === "shafii" || madhhab === "maliki") &&
+    residuaries.some(([heir]) => heir === "fullBrother") &&
+    maternalHalfCount >= 2 &&
+    compare(sum(fixed.map(({ share }) => share)), ONE) >= 0
+  ) {
+    const sharers = ([...maternalHalfSiblings, "fullBrother", "fullSister"] as Heir[]).filter((heir) => present.has(heir));
+    const sharerCount = sharers.reduce((total, heir) => total + count(heir), 0);
+    fixed.splice(0, fixed.length, ...fixed.filter(({ heir }) => !maternalHalfSiblings.includes(heir)));
+    for (const heir of sharers) {
+      addFixed(heir, fraction(count(heir), 3 * sharerCount),
+        "1/3 shared equally by the maternal half siblings and the full siblings (mushtarakah)");
+    }
+    residuaries = [];
+    rules.push("Mushtarakah: the fixed shares leave nothing for the full siblings, so they share the maternal half siblings' third equally with them, male and female alike, as children of the same mother (Shafi'i and Maliki schools).");
+  }
+
+  const fixedTotal = sum(fixed.map(({ share }) => share));
+  const allocations: Allocation[] = [];
+  let unallocated = ZERO;
+
+  if (compare(fixedTotal, ONE) > 0) {
+    // 'Awl: the fixed shares exceed the estate and are reduced proportionally
+    for (const allocation of fixed) {
+      allocations.push({ ...allocation, share: divide(allocation.share, fixedTotal) });
+    }
+    const base = fixed.reduce((lcm, { share }) => (lcm * share.denominator) / gcd(lcm, share.denominator), 1);
+    rules.push(`'Awl: the fixed shares add up to ${formatFraction(fixedTotal)} of the estate, so the base of ${base} is raised to ${(fixedTotal.numerator * base) / fixedTotal.denominator} and every share is reduced proportionally.`);
+    if (residuaries.length) {
+      rules.push(`Nothing remains for the residuaries (${residuaries.map(([heir]) => label(heir)).join(", ")}).`);
+    }
+  } else {
+    allocations.push(...fixed);
+    const residue = subtract(ONE, fixedTotal);
+
+    if (compare(residue, ZERO) > 0 && residuaries.length) {
+      const units = residuaries.reduce((total, [heir, weight]) => total + weight * count(heir), 0);
+      for (const [heir, weight] of residuaries) {
+        const share = multiply(residue, fraction(weight * count(heir), units));
+        const existing = allocations.find((allocation) => allocation.heir === heir);
+        if (existing) {
+          existing.share = add(existing.share, share);
+          existing.basis = `${existing.basis}: ${formatFraction(existing.share)} in total`;
+        } else {
+          allocations.push({ heir, share, basis: residuaryBasis });
+        }
+      }
+    } else if (residuaries.length) {
+      rules.push(`The fixed shares take the whole estate, so nothing remains for the residuaries (${residuaries.map(([heir]) => label(heir)).join(", ")}).`);
+    } else if (compare(residue, ZERO) > 0) {
+      const returnable = fixed.filter(({ heir }) => heir !== "husband" && heir !== "wife");
+      if (returnable.length) {
+        // Radd: the surplus returns to the fixed-share heirs except spouses
+        const spouseShare = sum(fixed.filter(({ heir }) => heir === "husband" || heir === "wife").map(({ share }) => share));
+        const returnableTotal = sum(returnable.map(({ share }) => share));
+        for (const allocation of allocations) {
+          if (returnable.includes(allocation)) {
+            allocation.share = multiply(subtract(ONE, spouseShare), divide(allocation.share, returnableTotal));
+          }
+        }
+        rules.push(`Radd: the fixed shares add up to only ${formatFraction(fixedTotal)}, so the remaining ${formatFraction(residue)} is returned to ${returnable.map(({ heir }) => label(heir)).join(", ")} in proportion to their shares${spouseShare.numerator ? " (spouses do not take part in radd)" : ""}.`);
+      } else if (spouse) {
+        const allocation = allocations.find(({ heir }) => heir === spouse)!;
+        allocation.share = ONE;
+        allocation.basis = `${allocation.basis}, plus the remainder`;
+        rules.push("Radd to the spouse: with no other heirs, the remainder is returned to the spouse as later Hanafi scholars and most modern laws hold (classically it went to the public treasury).");
+      } else {
+        unallocated = residue;
+        rules.push("No heirs by fixed share or residue survive; the estate passes to distant kindred (dhawu al-arham) or the public treasury.");
+      }
+    }
+  }
+
+  if (!allocations.length && !unallocated.numerator) {
+    unallocated = ONE;
+    rules.push("No heirs by fixed share or residue survive; the estate passes to distant kindred (dhawu al-arham) or the public treasury.");
+  }
+
+  const order = Object.keys(HEIR_LABELS);
+  const shares = allocations
+    .filter(({ share }) => share.numerator > 0)
+    .sort((a, b) => order.indexOf(a.heir) - order.indexOf(b.heir))
+    .map(({ heir, share, basis }) => {
+      const perPerson = divide(share, fraction(count(heir)));
+      return {
+        heir,
+        count: count(heir),
+        share,
+        perPerson,
+        amount: (estate * share.numerator) / share.denominator,
+        perPersonAmount: (estate * perPerson.numerator) / perPerson.denominator,
+        basis,
+      };
+    });
+
+  return { shares, blocked, unallocated, rules };
+};
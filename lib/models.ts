@@ -0,0 +1,181 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { Callbacks } from "@langchain/core/callbacks/manager";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatGroq } from "@langchain/groq";
+import { ChatOpenAI } from "@langchain/openai";
+import { CONTEXT_TOKEN_BUDGET } from "./contextWindow";
+import { ModelOption, ModelProvider } from "./types";
+
+export interface ModelConfig extends ModelOption {
+  // Model name sent to the provider
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Tokens of conversation history to send before older turns are summarized
+  contextTokens: number;
+  // Endpoint of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+  baseUrl?: string;
+  // Name of the environment variable holding the API key
+  apiKeyEnv?: string;
+}
+
+const DEFAULT_API_KEY_ENV: Record<ModelProvider, string> = {
+  groq: "GROQ_API_KEY",
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  "openai-compatible": "LOCAL_MODEL_API_KEY",
+};
+
+const BUILT_IN_MODELS: ModelConfig[] = [
+  {
+    id: "groq-llama3-70b",
+    label: "Llama 3 70B (Groq)",
+    provider: "groq",
+    model: "llama3-70b-8192",
+    temperature: 0.7,
+    maxTokens: 4096,
+    contextTokens: CONTEXT_TOKEN_BUDGET,
+    supportsTools: true,
+  },
+  {
+    id: "openai-gpt-4o",
+    label: "GPT-4o (OpenAI)",
+    provider: "openai",
+    model: "gpt-4o",
+    temperature: 0.7,
+    maxTokens: 4096,
+    contextTokens: 24000,
+    supportsTools: true,
+  },
+  {
+    id: "anthropic-claude-sonnet",
+    label: "Claude 3.5 Sonnet (Anthropic)",
+    provider: "anthropic",
+    model: "claude-3-5-sonnet-latest",
+    temperature: 0.7,
+    maxTokens: 4096,
+    contextTokens: 24000,
+    supportsTools: true,
+  },
+  {
+    // Ollama, llama.cpp's server or any other OpenAI-compatible endpoint
+    id: "local",
+    label: `${process.env.LOCAL_MODEL_NAME || "llama3.1"} (local)`,
+    provider: "openai-compatible",
+    model: process.env.LOCAL_MODEL_NAME || "llama3.1",
+    baseUrl: process.env.LOCAL_MODEL_URL,
+    temperature: 0.7,
+    maxTokens: 2048,
+    contextTokens: Number(process.env.LOCAL_MODEL_CONTEXT_TOKENS) || 4000,
+    // Many local models cannot call tools reliably
+    supportsTools: process.env.LOCAL_MODEL_TOOLS !== "false",
+  },
+];
+
+let cachedRegistry: ModelConfig[] | null = null;
+
+/**
+ * Returns the built-in models merged with CHAT_MODELS, a JSON array of
+ * entries that add models or override built-in ones with the same id
+ */
+export const getModelRegistry = () => {
+  if (cachedRegistry) {
+    return cachedRegistry;
+  }
+
+  let custom: Partial<ModelConfig>[] = [];
+  if (process.env.CHAT_MODELS) {
+    try {
+      custom = JSON.parse(process.env.CHAT_MODELS);
+    } catch (error) {
+      console.error("Invalid CHAT_MODELS, using the built-in models:", error);
+    }
+  }
+
+  const registry = [...BUILT_IN_MODELS];
+  for (const entry of custom) {
+    const index = registry.findIndex((model) => model.id === entry.id);
+    if (index !== -1) {
+      registry[index] = { ...registry[index], ...entry };
+    } else if (entry.id && entry.provider && entry.model) {
+      registry.push({
+        label: entry.id,
+        temperature: 0.7,
+        maxTokens: 4096,
+        contextTokens: CONTEXT_TOKEN_BUDGET,
+        supportsTools: true,
+        ...entry,
+      } as ModelConfig);
+    } else {
+      console.error("Skipping CHAT_MODELS entry without id, provider and model:", entry);
+    }
+  }
+
+  cachedRegistry = registry;
+  return registry;
+};
+
+const apiKeyFor = (config: ModelConfig) =>
+  process.env[config.apiKeyEnv || DEFAULT_API_KEY_ENV[config.provider]];
+
+// Hosted models need an API key; local servers need an endpoint
+const isAvailable = (config: ModelConfig) =>
+  config.provider === "openai-compatible" ? !!config.baseUrl : !!apiKeyFor(config);
+
+/**
+ * Lists the models that are configured, for the model picker
+ */
+export const getAvailableModels = (): ModelOption[] =>
+  getModelRegistry()
+    .filter(isAvailable)
+    .map(({ id, label, provider, supportsTools }) => ({ id, label, provider, supportsTools }));
+
+/**
+ * Returns the configuration of a model, falling back to DEFAULT_CHAT_MODEL
+ * and then to the first configured model when the id is missing or the
+ * model is not configured
+ */
+export const resolveModel = (modelId?: string) => {
+  const available = getModelRegistry().filter(isAvailable);
+  const model =
+    available.find(({ id }) => id === modelId) ??
+    available.find(({ id }) => id === process.env.DEFAULT_CHAT_MODEL) ??
+    available[0];
+
+  if (!model) {
+    throw new Error("No chat model is configured. Set GROQ_API_KEY or another provider's key.");
+  }
+  return model;
+};
+
+/**
+ * Builds the LangChain chat model for a registry entry
+ */
+export const createChatModel = (config: ModelConfig, callbacks?: Callbacks): BaseChatModel => {
+  const options = {
+    model: config.model,
+    apiKey: apiKeyFor(config),
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    streaming: true,
+    callbacks,
+  };
+
+  switch (config.provider) {
+    case "groq":
+      return new ChatGroq(options);
+    case "openai":
+      return new ChatOpenAI(options);
+    case "anthropic":
+      return new ChatAnthropic(options);
+    case "openai-compatible":
+      return new ChatOpenAI({
+        ...options,
+        // Local servers usually accept any key
+        apiKey: options.apiKey || "local",
+        configuration: { baseURL: config.baseUrl },
+      });
+    default:
+      throw new Error(`Unknown model provider: ${config.provider}`);
+  }
+};
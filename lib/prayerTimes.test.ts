@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculatePrayerTimes,
+  formatTimezoneOffset,
+  PrayerTimes,
+  PrayerTimesOptions,
+  resolveTimezoneOffset,
+} from "./prayerTimes";
+
+const minutes = (time: string | null) => {
+  const [hours, mins] = (time ?? "").split(":").map(Number);
+  return hours * 60 + mins;
+};
+
+// Timetables rounded to the minute may differ from ours by one minute
+const expectTimetable = (options: PrayerTimesOptions, expected: Partial<PrayerTimes>) => {
+  const times = calculatePrayerTimes(options);
+  for (const [prayer, time] of Object.entries(expected) as [keyof PrayerTimes, string][]) {
+    expect(Math.abs(minutes(times[prayer]) - minutes(time)), `${prayer} ${times[prayer]} vs ${time}`).toBeLessThanOrEqual(1);
+  }
+};
+
+// Reference timetables with the same twilight angles and no adjustments,
+// generated with the adhan library, which is checked against published
+// timetables and computes the sun's position independently of ours
+describe("calculatePrayerTimes", () => {
+  it("matches the Muslim World League timetable for London", () => {
+    expectTimetable(
+      { latitude: 51.5074, longitude: -0.1278, date: "2024-01-15", timezoneOffset: 0, method: "MWL" },
+      { fajr: "05:59", sunrise: "08:00", dhuhr: "12:10", asr: "14:02", maghrib: "16:20", isha: "18:14" }
+    );
+  });
+
+  it("matches the ISNA timetable for New York", () => {
+    expectTimetable(
+      { latitude: 40.7128, longitude: -74.006, date: "2024-06-21", timezoneOffset: -4, method: "ISNA" },
+      { fajr: "03:45", sunrise: "05:25", dhuhr: "12:58", asr: "16:58", maghrib: "20:31", isha: "22:11" }
+    );
+  });
+
+  it("matches the Umm al-Qura timetable for Makkah, with Isha 90 minutes after Maghrib", () => {
+    expectTimetable(
+      { latitude: 21.4225, longitude: 39.8262, date: "2024-03-15", timezoneOffset: 3, method: "Makkah" },
+      { fajr: "05:13", sunrise: "06:29", dhuhr: "12:29", asr: "15:54", maghrib: "18:30", isha: "20:00" }
+    );
+  });
+
+  it("matches the Karachi timetable with Hanafi Asr", () => {
+    const options: PrayerTimesOptions = {
+      latitude: 24.8607,
+      longitude: 67.0011,
+      date: "2024-09-01",
+      timezoneOffset: 5,
+      method: "Karachi",
+      asrMethod: "Hanafi",
+    };
+    expectTimetable(options, {
+      fajr: "04:55",
+      sunrise: "06:13",
+      dhuhr: "12:32",
+      asr: "17:03",
+      maghrib: "18:50",
+      isha: "20:08",
+    });
+
+    // Hanafi Asr waits for a shadow twice the object's length
+    const standard = calculatePrayerTimes({ ...options, asrMethod: "Standard" });
+    expect(minutes(standard.asr)).toBeLessThan(minutes("17:03") - 30);
+  });
+
+  it("keeps Fajr and Isha within the night where twilight lasts all night", () => {
+    const oslo = { latitude: 59.9139, longitude: 10.7522, date: "2024-06-21", timezoneOffset: 2 };
+
+    // Isha at 17° is never reached in Oslo at midsummer; both fall at the
+    // middle of the night
+    expectTimetable(
+      { ...oslo, method: "MWL" },
+      { fajr: "01:19", sunrise: "03:54", dhuhr: "13:19", asr: "18:01", maghrib: "22:44", isha: "01:19" }
+    );
+
+    const unadjusted = calculatePrayerTimes({ ...oslo, method: "MWL", highLatitudeRule: "None" });
+    expect(unadjusted.fajr).toBeNull();
+    expect(unadjusted.isha).toBeNull();
+
+    // A seventh of the 310-minute night after sunset and before sunrise
+    expectTimetable({ ...oslo, method: "MWL", highLatitudeRule: "OneSeventh" }, { fajr: "03:10", isha: "23:28" });
+  });
+
+  it("rejects invalid input", () => {
+    expect(() => calculatePrayerTimes({ latitude: 91, longitude: 0, date: "2024-01-01", timezoneOffset: 0 })).toThrow(
+      "Latitude must be between"
+    );
+    expect(() => calculatePrayerTimes({ latitude: 0, longitude: 0, date: "1/1/2024", timezoneOffset: 0 })).toThrow(
+      "Invalid date"
+    );
+  });
+});
+
+describe("resolveTimezoneOffset", () => {
+  it("reads offsets in hours or as UTC offsets", () => {
+    expect(resolveTimezoneOffset("5.5", "2024-01-01")).toBe(5.5);
+    expect(resolveTimezoneOffset("UTC+05:30", "2024-01-01")).toBe(5.5);
+    expect(resolveTimezoneOffset("-4", "2024-01-01")).toBe(-4);
+  });
+
+  it("applies daylight saving time to IANA names", () => {
+    expect(resolveTimezoneOffset("Europe/London", "2024-01-15")).toBe(0);
+    expect(resolveTimezoneOffset("Europe/London", "2024-07-15")).toBe(1);
+  });
+
+  it("formats offsets", () => {
+    expect(formatTimezoneOffset(5.5)).toBe("UTC+05:30");
+    expect(formatTimezoneOffset(-3.5)).toBe("UTC-03:30");
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Astronomical prayer time calculation, fully offline.
+ * Follows the algorithm published by PrayTimes.org so results can be
+ * compared against timetables produced by the same method.
+ */
+
+export type CalculationMethod = "MWL" | "ISNA" | "Egypt" | "Makkah" | "Karachi";
+export type AsrMethod = "Standard" | "Hanafi";
+export type HighLatitudeRule = "NightMiddle" | "AngleBased" | "OneSeventh" | "None";
+
+interface MethodParameters {
+  name: string;
+  fajrAngle: number;
+  // Isha is either a twilight angle or a fixed number of minutes after maghrib
+  isha: { angle: number } | { minutes: number };
+}
+
+export const CALCULATION_METHODS: Record<CalculationMethod, MethodParameters> = {
+  MWL: { name: "Muslim World League", fajrAngle: 18, isha: { angle: 17 } },
+  ISNA: { name: "Islamic Society of North America", fajrAngle: 15, isha: { angle: 15 } },
+  Egypt: { name: "Egyptian General Authority of Survey", fajrAngle: 19.5, isha: { angle: 17.5 } },
+  Makkah: { name: "Umm al-Qura University, Makkah", fajrAngle: 18.5, isha: { minutes: 90 } },
+  Karachi: { name: "University of Islamic Sciences, Karachi", fajrAngle: 18, isha: { angle: 18 } },
+};
+
+// Shadow length factor at Asr relative to an object's height
+const ASR_FACTORS: Record<AsrMethod, number> = {
+  Standard: 1,
+  Hanafi: 2,
+};
+
+export interface PrayerTimesOptions {
+  latitude: number;
+  longitude: number;
+  // Calendar date as YYYY-MM-DD
+  date: string;
+  // Hours east of UTC, e.g. 5.5 for India
+  timezoneOffset: number;
+  method?: CalculationMethod;
+  asrMethod?: AsrMethod;
+  highLatitudeRule?: HighLatitudeRule;
+  // Metres above sea level; lowers the horizon for sunrise and sunset
+  elevation?: number;
+}
+
+// Times are "HH:MM" in local time, or null when the sun never reaches the angle
+export interface PrayerTimes {
+  fajr: string | null;
+  sunrise: string | null;
+  dhuhr: string | null;
+  asr: string | null;
+  maghrib: string | null;
+  isha: string | null;
+}
+
+// Degree-based trigonometry
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+const sin = (d: number) => Math.sin(dtr(d));
+const cos = (d: number) => Math.cos(dtr(d));
+const tan = (d: number) => Math.tan(dtr(d));
+const arcsin = (x: number) => rtd(Math.asin(x));
+const arccos = (x: number) => rtd(Math.acos(x));
+const arccot = (x: number) => rtd(Math.atan(1 / x));
+const arctan2 = (y: number, x: number) => rtd(Math.atan2(y, x));
+
+const fix = (a: number, b: number) => {
+  const value = a - b * Math.floor(a / b);
+  return value < 0 ? value + b : value;
+};
+const fixAngle = (a: number) => fix(a, 360);
+const fixHour = (a: number) => fix(a, 24);
+const timeDiff = (from: number, to: number) => fixHour(to - from);
+
+const julianDate = (year: number, month: number, day: number) => {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return (
+    Math.floor(365.25 * (year + 4716)) +
+    Math.floor(30.6001 * (month + 1)) +
+    day +
+    b -
+    1524.5
+  );
+};
+
+// Declination and equation of time for a given Julian date
+const sunPosition = (jd: number) => {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * sin(g) + 0.02 * sin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  return {
+    declination: arcsin(sin(e) * sin(l)),
+    equation: q / 15 - fixHour(ra),
+  };
+};
+
+/**
+ * Parses a YYYY-MM-DD date, throwing for anything else
+ */
+export const parseDate = (date: string) => {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const [year, month, day] = match ? match.slice(1).map(Number) : [];
+  if (!match || month < 1 || month > 12 || day < 1 || day > 31) {
+    throw new Error(`Invalid date '${date}'. Use the format YYYY-MM-DD.`);
+  }
+  return { year, month, day };
+};
+
+/**
+ * Resolves a timezone given as hours ("5.5"), a UTC offset ("UTC+05:30",
+ * "-4") or an IANA name ("Europe/London") to hours east of UTC on the
+ * given date, so daylight saving time is applied.
+ */
+export const resolveTimezoneOffset = (timezone: string, date: string) => {
+  const offset = timezone
+    .trim()
+    .match(/^(?:UTC|GMT)?\s*([+-]?)(\d{1,2})(?::(\d{2})|(\.\d+))?$/i);
+  if (offset) {
+    const [, sign, hours, minutes, fraction] = offset;
+    const value = Number(hours) + (minutes ? Number(minutes) / 60 : Number(fraction ?? 0));
+    return sign === "-" ? -value : value;
+  }
+
+  const { year, month, day } = parseDate(date);
+  const noon = new Date(Date.UTC(year, month - 1, day, 12));
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone.trim(),
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    }).formatToParts(noon);
+  } catch {
+    throw new Error(`Unknown timezone '${timezone}'.`);
+  }
+
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const local = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute")
+  );
+  return (local - noon.getTime()) / 3_600_000;
+};
+
+/**
+ * Formats a UTC offset in hours as "UTC+05:30"
+ */
+export const formatTimezoneOffset = (hours: number) => {
+  const sign = hours < 0 ? "-" : "+";
+  const minutes = Math.round(Math.abs(hours) * 60);
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `UTC${sign}${hh}:${mm}`;
+};
+
+const formatTime = (time: number) => {
+  if (!Number.isFinite(time)) return null;
+  // Round to the nearest minute
+  const rounded = fixHour(time + 0.5 / 60);
+  const hours = Math.floor(rounded);
+  const minutes = Math.floor((rounded - hours) * 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+};
+
+/**
+ * Calculates the daily prayer times for a location and date
+ */
+export const calculatePrayerTimes = ({
+  latitude,
+  longitude,
+  date,
+  timezoneOffset,
+  method = "MWL",
+  asrMethod = "Standard",
+  highLatitudeRule = "NightMiddle",
+  elevation = 0,
+}: PrayerTimesOptions): PrayerTimes => {
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+    throw new Error("Latitude must be between -90 and 90 and longitude between -180 and 180.");
+  }
+
+  const params = CALCULATION_METHODS[method];
+  if (!params) {
+    throw new Error(`Unknown calculation method '${method}'.`);
+  }
+
+  const { year, month, day } = parseDate(date);
+  const jDate = julianDate(year, month, day) - longitude / (15 * 24);
+  const riseSetAngle = 0.833 + 0.0347 * Math.sqrt(elevation);
+
+  // Times below are day fractions in hours, refined from these estimates
+  const midDay = (time: number) =>
+    fixHour(12 - sunPosition(jDate + time / 24).equation);
+
+  const sunAngleTime = (angle: number, time: number, beforeNoon = false) => {
+    const { declination } = sunPosition(jDate + time / 24);
+    const noon = midDay(time);
+    const t =
+      arccos(
+        (-sin(angle) - sin(declination) * sin(latitude)) /
+          (cos(declination) * cos(latitude))
+      ) / 15;
+    return noon + (beforeNoon ? -t : t);
+  };
+
+  const asrTime = (factor: number, time: number) => {
+    const { declination } = sunPosition(jDate + time / 24);
+    const angle = -arccot(factor + tan(Math.abs(latitude - declination)));
+    return sunAngleTime(angle, time);
+  };
+
+  const times = {
+    fajr: sunAngleTime(params.fajrAngle, 5, true),
+    sunrise: sunAngleTime(riseSetAngle, 6, true),
+    dhuhr: midDay(12),
+    asr: asrTime(ASR_FACTORS[asrMethod], 13),
+    sunset: sunAngleTime(riseSetAngle, 18),
+    isha: "angle" in params.isha ? sunAngleTime(params.isha.angle, 18) : NaN,
+  };
+
+  // Convert from local solar time to the requested timezone
+  const shift = timezoneOffset - longitude / 15;
+  for (const key of Object.keys(times) as (keyof typeof times)[]) {
+    times[key] += shift;
+  }
+
+  // Keep Fajr and Isha within a portion of the night at high latitudes,
+  // where twilight may last all night or the angle is never reached
+  if (highLatitudeRule !== "None") {
+    const night = timeDiff(times.sunset, times.sunrise);
+    const portion = (angle: number) => {
+      if (highLatitudeRule === "AngleBased") return (angle / 60) * night;
+      if (highLatitudeRule === "OneSeventh") return night / 7;
+      return night / 2;
+    };
+
+    const fajrPortion = portion(params.fajrAngle);
+    if (!Number.isFinite(times.fajr) || timeDiff(times.fajr, times.sunrise) > fajrPortion) {
+      times.fajr = times.sunrise - fajrPortion;
+    }
+
+    if ("angle" in params.isha) {
+      const ishaPortion = portion(params.isha.angle);
+      if (!Number.isFinite(times.isha) || timeDiff(times.sunset, times.isha) > ishaPortion) {
+        times.isha = times.sunset + ishaPortion;
+      }
+    }
+  }
+
+  if ("minutes" in params.isha) {
+    times.isha = times.sunset + params.isha.minutes / 60;
+  }
+
+  return {
+    fajr: formatTime(times.fajr),
+    sunrise: formatTime(times.sunrise),
+    dhuhr: formatTime(times.dhuhr),
+    asr: formatTime(times.asr),
+    maghrib: formatTime(times.sunset),
+    isha: formatTime(times.isha),
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { calculateQibla, findCity, toCompassPoint } from "./qibla";
+
+describe("calculateQibla", () => {
+  it("gives the great-circle bearing and distance to the Kaaba", () => {
+    const newYork = calculateQibla(40.7128, -74.006);
+    expect(newYork.bearing).toBeCloseTo(58.48, 1);
+    expect(newYork.compassPoint).toBe("ENE");
+    expect(newYork.distanceKm).toBeCloseTo(10306, -1);
+
+    expect(calculateQibla(51.5074, -0.1278).bearing).toBeCloseTo(118.99, 1);
+    expect(calculateQibla(3.139, 101.6869).bearing).toBeCloseTo(292.54, 1);
+  });
+
+  it("rejects coordinates out of range", () => {
+    expect(() => calculateQibla(0, 181)).toThrow("longitude between -180 and 180");
+  });
+});
+
+describe("toCompassPoint", () => {
+  it("rounds to the nearest of 16 points", () => {
+    expect(toCompassPoint(0)).toBe("N");
+    expect(toCompassPoint(118)).toBe("ESE");
+    expect(toCompassPoint(359)).toBe("N");
+    expect(toCompassPoint(-90)).toBe("W");
+  });
+});
+
+describe("findCity", () => {
+  it("finds cities by name or alias, ignoring accents", async () => {
+    expect((await findCity("São Paulo"))?.country).toBe("Brazil");
+    expect((await findCity("sao paulo"))?.country).toBe("Brazil");
+  });
+
+  it("narrows the search by country", async () => {
+    expect((await findCity("Hyderabad, India"))?.longitude).toBeCloseTo(78.49, 1);
+    expect(await findCity("Hyderabad, Nowhere")).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Qibla direction and distance to the Kaaba, calculated on a sphere
+ * (great circle), with an offline gazetteer of major world cities.
+ */
+
+export const KAABA = { latitude: 21.422487, longitude: 39.826206 };
+
+// Mean Earth radius in km
+const EARTH_RADIUS = 6371.0088;
+
+const COMPASS_POINTS = [
+  "N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE",
+  "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW",
+];
+
+export interface City {
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+export interface Qibla {
+  // Degrees clockwise from true north
+  bearing: number;
+  compassPoint: string;
+  distanceKm: number;
+}
+
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+
+/**
+ * Returns the 16-point compass direction for a bearing, e.g. 118° -> "ESE"
+ */
+export const toCompassPoint = (bearing: number) =>
+  COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 22.5) % 16];
+
+/**
+ * Calculates the initial great-circle bearing and distance from a
+ * location to the Kaaba
+ */
+export const calculateQibla = (latitude: number, longitude: number): Qibla => {
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+    throw new Error("Latitude must be between -90 and 90 and longitude between -180 and 180.");
+  }
+
+  const lat1 = dtr(latitude);
+  const lat2 = dtr(KAABA.latitude);
+  const deltaLon = dtr(KAABA.longitude - longitude);
+
+  const y = Math.sin(deltaLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon);
+  const bearing = (rtd(Math.atan2(y, x)) + 360) % 360;
+
+  // Haversine distance
+  const a =
+    Math.sin(dtr(KAABA.latitude - latitude) / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(deltaLon / 2) ** 2;
+  const distanceKm = 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+
+  return { bearing, compassPoint: toCompassPoint(bearing), distanceKm };
+};
+
+const normalizeName = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+let citiesPromise: Promise<City[]> | null = null;
+
+const loadCities = () => {
+  if (!citiesPromise) {
+    citiesPromise = import("../data/cities.json").then(
+      (module) => module.default.cities as City[]
+    );
+  }
+  return citiesPromise;
+};
+
+/**
+ * Finds a city in the bundled gazetteer by name or alias. A country can be
+ * given after a comma to disambiguate, e.g. "Hyderabad, India".
+ */
+export const findCity = async (query: string): Promise<City | undefined> => {
+  const [name, country] = query.split(",").map(normalizeName);
+  const cities = await loadCities();
+
+  return cities.find(
+    (city) =>
+      [city.name, ...(city.aliases || [])].some(
+        (candidate) => normalizeName(candidate) === name
+      ) &&
+      (!country || normalizeName(city.country) === country)
+  );
+};
@@ -0,0 +1,427 @@
+import { createSearchIndex } from "./textSearch";
+
+export interface QuranVerse {
+  surah: number;
+  ayah: number;
+  arabic: string;
+  translation: string;
+}
+
+export interface QuranSearchResult {
+  verseKey: string;
+  text: string;
+}
+
+export interface QuranTranslationInfo {
+  id: string;
+  name: string;
+  language: string;
+}
+
+export interface QuranSearchOptions {
+  translation: string;
+  limit: number;
+}
+
+/**
+ * A backend that can serve Quran text and translations to the tools.
+ * Implementations return normalized data; formatting is left to the tools
+ * so answers look the same whichever backend is configured.
+ */
+export interface QuranDataSource {
+  // `signal` cancels any request still in flight when the caller gives up
+  getVerse(
+    surah: number,
+    ayah: number,
+    translation: string,
+    signal?: AbortSignal
+  ): Promise<QuranVerse | null>;
+  getVerses(
+    surah: number,
+    fromAyah: number,
+    toAyah: number,
+    translation: string,
+    signal?: AbortSignal
+  ): Promise<QuranVerse[]>;
+  search(
+    query: string,
+    options: QuranSearchOptions,
+    signal?: AbortSignal
+  ): Promise<QuranSearchResult[]>;
+  listTranslations(): Promise<QuranTranslationInfo[]>;
+}
+
+// Shape of the bundled quran-json corpus files
+export interface QuranCorpusSurah {
+  id: number;
+  total_verses: number;
+  verses: {
+    id: number;
+    text: string;
+    translation?: string;
+    transliteration?: string;
+  }[];
+}
+
+export interface LocalQuranTranslation extends QuranTranslationInfo {
+  load: () => Promise<{ default: QuranCorpusSurah[] }>;
+}
+
+// Translations bundled with the local corpus, under their Tanzil ids. The
+// quran-json README names the translator of each file
+const LOCAL_TRANSLATIONS: LocalQuranTranslation[] = [
+  { id: "en.sahih", name: "Sahih International", language: "English", load: () => import("quran-json/dist/quran_en.json") },
+  { id: "en.transliteration", name: "Transliteration", language: "English", load: () => import("quran-json/dist/quran_transliteration.json") },
+  { id: "ur.maududi", name: "Abul A'la Maududi", language: "Urdu", load: () => import("quran-json/dist/quran_ur.json") },
+  { id: "bn.bengali", name: "Muhiuddin Khan", language: "Bengali", load: () => import("quran-json/dist/quran_bn.json") },
+  { id: "es.garcia", name: "Isa Garcia", language: "Spanish", load: () => import("quran-json/dist/quran_es.json") },
+  { id: "fr.hamidullah", name: "Muhammad Hamidullah", language: "French", load: () => import("quran-json/dist/quran_fr.json") },
+  { id: "id.indonesian", name: "Ministry of Religious Affairs", language: "Indonesian", load: () => import("quran-json/dist/quran_id.json") },
+  { id: "ru.kuliev", name: "Elmir Kuliev", language: "Russian", load: () => import("quran-json/dist/quran_ru.json") },
+  { id: "sv.bernstrom", name: "Knut Bernström", language: "Swedish", load: () => import("quran-json/dist/quran_sv.json") },
+  { id: "tr.diyanet", name: "Diyanet İşleri", language: "Turkish", load: () => import("quran-json/dist/quran_tr.json") },
+  { id: "zh.makin", name: "Muhammad Makin", language: "Chinese", load: () => import("quran-json/dist/quran_zh.json") },
+];
+
+const QURAN_API_URL = "https://api.quran.com/api/v4";
+
+// Quran.com resource ids of the translations known by name. Both backends
+// accept either scheme, so the tools can pass the same ids whichever is
+// configured. Translations missing here have no Quran.com equivalent
+const QURAN_COM_TRANSLATION_IDS: Record<string, number> = {
+  "en.sahih": 20,
+  "en.transliteration": 57,
+  "ur.maududi": 97,
+  "es.garcia": 83,
+  "fr.hamidullah": 31,
+  "id.indonesian": 33,
+  "ru.kuliev": 45,
+  "sv.bernstrom": 48,
+  "tr.diyanet": 77,
+};
+
+// Language codes accepted in place of language names when filtering
+const LANGUAGE_CODES: Record<string, string> = {
+  ar: "arabic",
+  bn: "bengali",
+  de: "german",
+  en: "english",
+  es: "spanish",
+  fr: "french",
+  id: "indonesian",
+  ru: "russian",
+  sv: "swedish",
+  tr: "turkish",
+  ur: "urdu",
+  zh: "chinese",
+};
+
+/**
+ * Returns the Quran.com resource id of a translation given by name
+ * ("en.sahih") or by resource id ("20")
+ */
+export const toQuranComTranslationId = (translation: string) => {
+  const id = QURAN_COM_TRANSLATION_IDS[translation] ?? (/^\d+$/.test(translation) ? Number(translation) : undefined);
+  if (id === undefined) {
+    throw new Error(`Translation '${translation}' is not available from Quran.com`);
+  }
+  return id;
+};
+
+/**
+ * Returns the named id of a translation given by Quran.com resource id,
+ * or the id unchanged when it has no name
+ */
+export const toTranslationName = (translation: string) =>
+  Object.entries(QURAN_COM_TRANSLATION_IDS).find(([, id]) => String(id) === translation)?.[0] ??
+  translation;
+
+/**
+ * Whether a translation is in a language, given as a name ("Urdu") or a
+ * code ("ur")
+ */
+export const isInLanguage = (info: QuranTranslationInfo, language: string) => {
+  const filter = language.toLowerCase().trim();
+  const name = LANGUAGE_CODES[filter] ?? filter;
+  return info.language.toLowerCase() === name || info.id.toLowerCase().startsWith(`${filter}.`);
+};
+
+interface QuranTranslationResponse {
+  translations: { text: string }[];
+}
+
+interface QuranVerseResponse {
+  verses: { verse_key: string; text_uthmani: string }[];
+}
+
+interface QuranTranslationsListResponse {
+  translations: {
+    id: number;
+    name: string;
+    author_name: string;
+    language_name: string;
+  }[];
+}
+
+interface QuranSearchResponse {
+  search: {
+    results: { verse_key: string; text: string }[];
+  };
+}
+
+// Quran.com wraps footnotes and search highlights in HTML tags
+const stripTags = (text: string) => text.replace(/<[^>]*>/g, "").trim();
+
+/**
+ * Quran data source backed by the Quran.com API
+ */
+export const createHttpQuranDataSource = (
+  baseUrl: string = QURAN_API_URL
+): QuranDataSource => {
+  const getVerse = async (
+    surah: number,
+    ayah: number,
+    translation: string,
+    signal?: AbortSignal
+  ) => {
+    const response = await fetch(
+      `${baseUrl}/quran/translations/${toQuranComTranslationId(translation)}?verse_key=${surah}:${ayah}`,
+      { signal }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Quran verse: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as QuranTranslationResponse;
+
+    // Also fetch the Arabic text
+    const arabicResponse = await fetch(
+      `${baseUrl}/quran/verses/uthmani?verse_key=${surah}:${ayah}`,
+      { signal }
+    );
+
+    if (!arabicResponse.ok) {
+      throw new Error(
+        `Failed to fetch Arabic text: ${arabicResponse.statusText}`
+      );
+    }
+
+    const arabicData = (await arabicResponse.json()) as QuranVerseResponse;
+
+    if (!data.translations?.length || !arabicData.verses?.length) {
+      return null;
+    }
+
+    return {
+      surah,
+      ayah,
+      arabic: arabicData.verses[0].text_uthmani,
+      translation: stripTags(data.translations[0].text),
+    };
+  };
+
+  const getVerses = async (
+    surah: number,
+    fromAyah: number,
+    toAyah: number,
+    translation: string,
+    signal?: AbortSignal
+  ) => {
+    // Quran.com serves whole chapters; the range is sliced out afterwards
+    const [response, arabicResponse] = await Promise.all([
+      fetch(
+        `${baseUrl}/quran/translations/${toQuranComTranslationId(translation)}?chapter_number=${surah}`,
+        { signal }
+      ),
+      fetch(`${baseUrl}/quran/verses/uthmani?chapter_number=${surah}`, { signal }),
+    ]);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Quran verses: ${response.statusText}`);
+    }
+    if (!arabicResponse.ok) {
+      throw new Error(
+        `Failed to fetch Arabic text: ${arabicResponse.statusText}`
+      );
+    }
+
+    const data = (await response.json()) as QuranTranslationResponse;
+    const arabicData = (await arabicResponse.json()) as QuranVerseResponse;
+
+    return (arabicData.verses || [])
+      .map((verse, index) => ({
+        surah,
+        ayah: Number(verse.verse_key.split(":")[1]),
+        arabic: verse.text_uthmani,
+        translation: stripTags(data.translations?.[index]?.text || ""),
+      }))
+      .filter((verse) => verse.ayah >= fromAyah && verse.ayah <= toAyah);
+  };
+
+  const search = async (
+    query: string,
+    { translation, limit }: QuranSearchOptions,
+    signal?: AbortSignal
+  ) => {
+    const response = await fetch(
+      `${baseUrl}/search?q=${encodeURIComponent(query)}&size=${limit}&language=en&page=1&translations=${toQuranComTranslationId(translation)}`,
+      { signal }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to search Quran: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as QuranSearchResponse;
+
+    return (data.search?.results || []).map((result) => ({
+      verseKey: result.verse_key,
+      text: stripTags(result.text),
+    }));
+  };
+
+  const listTranslations = async () => {
+    const response = await fetch(`${baseUrl}/resources/translations`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to list translations: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as QuranTranslationsListResponse;
+
+    // Quran.com addresses translations by numeric resource id; known ones
+    // are listed under the same names as the local backend uses
+    return (data.translations || []).map((translation) => ({
+      id: toTranslationName(String(translation.id)),
+      name: translation.author_name || translation.name,
+      language:
+        translation.language_name.charAt(0).toUpperCase() +
+        translation.language_name.slice(1),
+    }));
+  };
+
+  return { getVerse, getVerses, search, listTranslations };
+};
+
+/**
+ * Quran data source backed by the bundled Uthmani corpus and translations.
+ * Works fully offline; corpora are loaded and indexed on first use.
+ */
+export const createLocalQuranDataSource = (
+  translations: LocalQuranTranslation[] = LOCAL_TRANSLATIONS
+): QuranDataSource => {
+  const corpora = new Map<string, Promise<QuranCorpusSurah[]>>();
+  const indexes = new Map<
+    string,
+    ReturnType<typeof createSearchIndex<QuranVerse>>
+  >();
+
+  const loadCorpus = (requested: string) => {
+    // Quran.com resource ids are accepted too
+    const translation = toTranslationName(requested);
+    const local = translations.find(({ id }) => id === translation);
+    if (!local) {
+      const available = translations.map(({ id }) => id).join(", ");
+      throw new Error(
+        `Translation '${translation}' is not available offline (available: ${available})`
+      );
+    }
+
+    let corpus = corpora.get(translation);
+    if (!corpus) {
+      corpus = local.load().then((module) => module.default);
+      corpora.set(translation, corpus);
+    }
+    return corpus;
+  };
+
+  const toVerse = (
+    surah: QuranCorpusSurah,
+    verse: QuranCorpusSurah["verses"][number]
+  ): QuranVerse => ({
+    surah: surah.id,
+    ayah: verse.id,
+    arabic: verse.text,
+    translation: verse.translation || verse.transliteration || "",
+  });
+
+  const getVerse = async (surah: number, ayah: number, translation: string) => {
+    const corpus = await loadCorpus(translation);
+    const chapter = corpus[surah - 1];
+    const verse = chapter?.verses[ayah - 1];
+
+    return chapter && verse ? toVerse(chapter, verse) : null;
+  };
+
+  const getVerses = async (
+    surah: number,
+    fromAyah: number,
+    toAyah: number,
+    translation: string
+  ) => {
+    const corpus = await loadCorpus(translation);
+    const chapter = corpus[surah - 1];
+    if (!chapter) return [];
+
+    return chapter.verses
+      .slice(fromAyah - 1, toAyah)
+      .map((verse) => toVerse(chapter, verse));
+  };
+
+  const search = async (
+    query: string,
+    { translation, limit }: QuranSearchOptions
+  ) => {
+    let index = indexes.get(translation);
+    if (!index) {
+      const corpus = await loadCorpus(translation);
+      const verses = corpus.flatMap((chapter) =>
+        chapter.verses.map((verse) => toVerse(chapter, verse))
+      );
+      index = createSearchIndex(
+        verses,
+        (verse) => `${verse.arabic} ${verse.translation}`
+      );
+      indexes.set(translation, index);
+    }
+
+    return index.search(query, limit).map((verse) => ({
+      verseKey: `${verse.surah}:${verse.ayah}`,
+      text: verse.translation,
+    }));
+  };
+
+  const listTranslations = async () =>
+    translations.map(({ id, name, language }) => ({ id, name, language }));
+
+  return { getVerse, getVerses, search, listTranslations };
+};
+
+// Cache the data source instance
+let cachedDataSource: QuranDataSource | null = null;
+
+/**
+ * Returns the Quran data source selected by QURAN_DATA_SOURCE
+ * ("http" or "local", default "http").
+ */
+export const getQuranDataSource = () => {
+  if (cachedDataSource) {
+    return cachedDataSource;
+  }
+
+  const backend = process.env.QURAN_DATA_SOURCE || "http";
+
+  switch (backend) {
+    case "http":
+      cachedDataSource = createHttpQuranDataSource(process.env.QURAN_API_URL);
+      break;
+    case "local":
+      cachedDataSource = createLocalQuranDataSource();
+      break;
+    default:
+      throw new Error(`Unknown QURAN_DATA_SOURCE: ${backend}`);
+  }
+
+  return cachedDataSource;
+};
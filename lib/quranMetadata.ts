@@ -0,0 +1,200 @@
+export interface SurahInfo {
+  number: number;
+  name: string;
+  transliteration: string;
+  translation: string;
+  ayahs: number;
+  revelation: "meccan" | "medinan";
+}
+
+export interface VerseRange {
+  surah: number;
+  fromAyah: number;
+  toAyah: number;
+}
+
+// Per-surah metadata (Hafs numbering, 6236 ayahs in total)
+export const SURAHS: SurahInfo[] = [
+  { number: 1, name: "الفاتحة", transliteration: "Al-Fatihah", translation: "The Opener", ayahs: 7, revelation: "meccan" },
+  { number: 2, name: "البقرة", transliteration: "Al-Baqarah", translation: "The Cow", ayahs: 286, revelation: "medinan" },
+  { number: 3, name: "آل عمران", transliteration: "Ali 'Imran", translation: "Family of Imran", ayahs: 200, revelation: "medinan" },
+  { number: 4, name: "النساء", transliteration: "An-Nisa", translation: "The Women", ayahs: 176, revelation: "medinan" },
+  { number: 5, name: "المائدة", transliteration: "Al-Ma'idah", translation: "The Table Spread", ayahs: 120, revelation: "medinan" },
+  { number: 6, name: "الأنعام", transliteration: "Al-An'am", translation: "The Cattle", ayahs: 165, revelation: "meccan" },
+  { number: 7, name: "الأعراف", transliteration: "Al-A'raf", translation: "The Heights", ayahs: 206, revelation: "meccan" },
+  { number: 8, name: "الأنفال", transliteration: "Al-Anfal", translation: "The Spoils of War", ayahs: 75, revelation: "medinan" },
+  { number: 9, name: "التوبة", transliteration: "At-Tawbah", translation: "The Repentance", ayahs: 129, revelation: "medinan" },
+  { number: 10, name: "يونس", transliteration: "Yunus", translation: "Jonah", ayahs: 109, revelation: "meccan" },
+  { number: 11, name: "هود", transliteration: "Hud", translation: "Hud", ayahs: 123, revelation: "meccan" },
+  { number: 12, name: "يوسف", transliteration: "Yusuf", translation: "Joseph", ayahs: 111, revelation: "meccan" },
+  { number: 13, name: "الرعد", transliteration: "Ar-Ra'd", translation: "The Thunder", ayahs: 43, revelation: "medinan" },
+  { number: 14, name: "ابراهيم", transliteration: "Ibrahim", translation: "Abraham", ayahs: 52, revelation: "meccan" },
+  { number: 15, name: "الحجر", transliteration: "Al-Hijr", translation: "The Rocky Tract", ayahs: 99, revelation: "meccan" },
+  { number: 16, name: "النحل", transliteration: "An-Nahl", translation: "The Bee", ayahs: 128, revelation: "meccan" },
+  { number: 17, name: "الإسراء", transliteration: "Al-Isra", translation: "The Night Journey", ayahs: 111, revelation: "meccan" },
+  { number: 18, name: "الكهف", transliteration: "Al-Kahf", translation: "The Cave", ayahs: 110, revelation: "meccan" },
+  { number: 19, name: "مريم", transliteration: "Maryam", translation: "Mary", ayahs: 98, revelation: "meccan" },
+  { number: 20, name: "طه", transliteration: "Taha", translation: "Ta-Ha", ayahs: 135, revelation: "meccan" },
+  { number: 21, name: "الأنبياء", transliteration: "Al-Anbya", translation: "The Prophets", ayahs: 112, revelation: "meccan" },
+  { number: 22, name: "الحج", transliteration: "Al-Hajj", translation: "The Pilgrimage", ayahs: 78, revelation: "medinan" },
+  { number: 23, name: "المؤمنون", transliteration: "Al-Mu'minun", translation: "The Believers", ayahs: 118, revelation: "meccan" },
+  { number: 24, name: "النور", transliteration: "An-Nur", translation: "The Light", ayahs: 64, revelation: "medinan" },
+  { number: 25, name: "الفرقان", transliteration: "Al-Furqan", translation: "The Criterion", ayahs: 77, revelation: "meccan" },
+  { number: 26, name: "الشعراء", transliteration: "Ash-Shu'ara", translation: "The Poets", ayahs: 227, revelation: "meccan" },
+  { number: 27, name: "النمل", transliteration: "An-Naml", translation: "The Ant", ayahs: 93, revelation: "meccan" },
+  { number: 28, name: "القصص", transliteration: "Al-Qasas", translation: "The Stories", ayahs: 88, revelation: "meccan" },
+  { number: 29, name: "العنكبوت", transliteration: "Al-'Ankabut", translation: "The Spider", ayahs: 69, revelation: "meccan" },
+  { number: 30, name: "الروم", transliteration: "Ar-Rum", translation: "The Romans", ayahs: 60, revelation: "meccan" },
+  { number: 31, name: "لقمان", transliteration: "Luqman", translation: "Luqman", ayahs: 34, revelation: "meccan" },
+  { number: 32, name: "السجدة", transliteration: "As-Sajdah", translation: "The Prostration", ayahs: 30, revelation: "meccan" },
+  { number: 33, name: "الأحزاب", transliteration: "Al-Ahzab", translation: "The Combined Forces", ayahs: 73, revelation: "medinan" },
+  { number: 34, name: "سبإ", transliteration: "Saba", translation: "Sheba", ayahs: 54, revelation: "meccan" },
+  { number: 35, name: "فاطر", transliteration: "Fatir", translation: "Originator", ayahs: 45, revelation: "meccan" },
+  { number: 36, name: "يس", transliteration: "Ya-Sin", translation: "Ya Sin", ayahs: 83, revelation: "meccan" },
+  { number: 37, name: "الصافات", transliteration: "As-Saffat", translation: "Those who set the Ranks", ayahs: 182, revelation: "meccan" },
+  { number: 38, name: "ص", transliteration: "Sad", translation: "The Letter \"Saad\"", ayahs: 88, revelation: "meccan" },
+  { number: 39, name: "الزمر", transliteration: "Az-Zumar", translation: "The Troops", ayahs: 75, revelation: "meccan" },
+  { number: 40, name: "غافر", transliteration: "Ghafir", translation: "The Forgiver", ayahs: 85, revelation: "meccan" },
+  { number: 41, name: "فصلت", transliteration: "Fussilat", translation: "Explained in Detail", ayahs: 54, revelation: "meccan" },
+  { number: 42, name: "الشورى", transliteration: "Ash-Shuraa", translation: "The Consultation", ayahs: 53, revelation: "meccan" },
+  { number: 43, name: "الزخرف", transliteration: "Az-Zukhruf", translation: "The Ornaments of Gold", ayahs: 89, revelation: "meccan" },
+  { number: 44, name: "الدخان", transliteration: "Ad-Dukhan", translation: "The Smoke", ayahs: 59, revelation: "meccan" },
+  { number: 45, name: "الجاثية", transliteration: "Al-Jathiyah", translation: "The Crouching", ayahs: 37, revelation: "meccan" },
+  { number: 46, name: "الأحقاف", transliteration: "Al-Ahqaf", translation: "The Wind-Curved Sandhills", ayahs: 35, revelation: "meccan" },
+  { number: 47, name: "محمد", transliteration: "Muhammad", translation: "Muhammad", ayahs: 38, revelation: "medinan" },
+  { number: 48, name: "الفتح", transliteration: "Al-Fath", translation: "The Victory", ayahs: 29, revelation: "medinan" },
+  { number: 49, name: "الحجرات", transliteration: "Al-Hujurat", translation: "The Rooms", ayahs: 18, revelation: "medinan" },
+  { number: 50, name: "ق", transliteration: "Qaf", translation: "The Letter \"Qaf\"", ayahs: 45, revelation: "meccan" },
+  { number: 51, name: "الذاريات", transliteration: "Adh-Dhariyat", translation: "The Winnowing Winds", ayahs: 60, revelation: "meccan" },
+  { number: 52, name: "الطور", transliteration: "At-Tur", translation: "The Mount", ayahs: 49, revelation: "meccan" },
+  { number: 53, name: "النجم", transliteration: "An-Najm", translation: "The Star", ayahs: 62, revelation: "meccan" },
+  { number: 54, name: "القمر", transliteration: "Al-Qamar", translation: "The Moon", ayahs: 55, revelation: "meccan" },
+  { number: 55, name: "الرحمن", transliteration: "Ar-Rahman", translation: "The Beneficent", ayahs: 78, revelation: "medinan" },
+  { number: 56, name: "الواقعة", transliteration: "Al-Waqi'ah", translation: "The Inevitable", ayahs: 96, revelation: "meccan" },
+  { number: 57, name: "الحديد", transliteration: "Al-Hadid", translation: "The Iron", ayahs: 29, revelation: "medinan" },
+  { number: 58, name: "المجادلة", transliteration: "Al-Mujadila", translation: "The Pleading Woman", ayahs: 22, revelation: "medinan" },
+  { number: 59, name: "الحشر", transliteration: "Al-Hashr", translation: "The Exile", ayahs: 24, revelation: "medinan" },
+  { number: 60, name: "الممتحنة", transliteration: "Al-Mumtahanah", translation: "She that is to be examined", ayahs: 13, revelation: "medinan" },
+  { number: 61, name: "الصف", transliteration: "As-Saf", translation: "The Ranks", ayahs: 14, revelation: "medinan" },
+  { number: 62, name: "الجمعة", transliteration: "Al-Jumu'ah", translation: "The Congregation, Friday", ayahs: 11, revelation: "medinan" },
+  { number: 63, name: "المنافقون", transliteration: "Al-Munafiqun", translation: "The Hypocrites", ayahs: 11, revelation: "medinan" },
+  { number: 64, name: "التغابن", transliteration: "At-Taghabun", translation: "The Mutual Disillusion", ayahs: 18, revelation: "medinan" },
+  { number: 65, name: "الطلاق", transliteration: "At-Talaq", translation: "The Divorce", ayahs: 12, revelation: "medinan" },
+  { number: 66, name: "التحريم", transliteration: "At-Tahrim", translation: "The Prohibition", ayahs: 12, revelation: "medinan" },
+  { number: 67, name: "الملك", transliteration: "Al-Mulk", translation: "The Sovereignty", ayahs: 30, revelation: "meccan" },
+  { number: 68, name: "القلم", transliteration: "Al-Qalam", translation: "The Pen", ayahs: 52, revelation: "meccan" },
+  { number: 69, name: "الحاقة", transliteration: "Al-Haqqah", translation: "The Reality", ayahs: 52, revelation: "meccan" },
+  { number: 70, name: "المعارج", transliteration: "Al-Ma'arij", translation: "The Ascending Stairways", ayahs: 44, revelation: "meccan" },
+  { number: 71, name: "نوح", transliteration: "Nuh", translation: "Noah", ayahs: 28, revelation: "meccan" },
+  { number: 72, name: "الجن", transliteration: "Al-Jinn", translation: "The Jinn", ayahs: 28, revelation: "meccan" },
+  { number: 73, name: "المزمل", transliteration: "Al-Muzzammil", translation: "The Enshrouded One", ayahs: 20, revelation: "meccan" },
+  { number: 74, name: "المدثر", transliteration: "Al-Muddaththir", translation: "The Cloaked One", ayahs: 56, revelation: "meccan" },
+  { number: 75, name: "القيامة", transliteration: "Al-Qiyamah", translation: "The Resurrection", ayahs: 40, revelation: "meccan" },
+  { number: 76, name: "الانسان", transliteration: "Al-Insan", translation: "The Man", ayahs: 31, revelation: "medinan" },
+  { number: 77, name: "المرسلات", transliteration: "Al-Mursalat", translation: "The Emissaries", ayahs: 50, revelation: "meccan" },
+  { number: 78, name: "النبإ", transliteration: "An-Naba", translation: "The Tidings", ayahs: 40, revelation: "meccan" },
+  { number: 79, name: "النازعات", transliteration: "An-Nazi'at", translation: "Those who drag forth", ayahs: 46, revelation: "meccan" },
+  { number: 80, name: "عبس", transliteration: "'Abasa", translation: "He Frowned", ayahs: 42, revelation: "meccan" },
+  { number: 81, name: "التكوير", transliteration: "At-Takwir", translation: "The Overthrowing", ayahs: 29, revelation: "meccan" },
+  { number: 82, name: "الإنفطار", transliteration: "Al-Infitar", translation: "The Cleaving", ayahs: 19, revelation: "meccan" },
+  { number: 83, name: "المطففين", transliteration: "Al-Mutaffifin", translation: "The Defrauding", ayahs: 36, revelation: "meccan" },
+  { number: 84, name: "الإنشقاق", transliteration: "Al-Inshiqaq", translation: "The Sundering", ayahs: 25, revelation: "meccan" },
+  { number: 85, name: "البروج", transliteration: "Al-Buruj", translation: "The Mansions of the Stars", ayahs: 22, revelation: "meccan" },
+  { number: 86, name: "الطارق", transliteration: "At-Tariq", translation: "The Nightcommer", ayahs: 17, revelation: "meccan" },
+  { number: 87, name: "الأعلى", transliteration: "Al-A'la", translation: "The Most High", ayahs: 19, revelation: "meccan" },
+  { number: 88, name: "الغاشية", transliteration: "Al-Ghashiyah", translation: "The Overwhelming", ayahs: 26, revelation: "meccan" },
+  { number: 89, name: "الفجر", transliteration: "Al-Fajr", translation: "The Dawn", ayahs: 30, revelation: "meccan" },
+  { number: 90, name: "البلد", transliteration: "Al-Balad", translation: "The City", ayahs: 20, revelation: "meccan" },
+  { number: 91, name: "الشمس", transliteration: "Ash-Shams", translation: "The Sun", ayahs: 15, revelation: "meccan" },
+  { number: 92, name: "الليل", transliteration: "Al-Layl", translation: "The Night", ayahs: 21, revelation: "meccan" },
+  { number: 93, name: "الضحى", transliteration: "Ad-Duhaa", translation: "The Morning Hours", ayahs: 11, revelation: "meccan" },
+  { number: 94, name: "الشرح", transliteration: "Ash-Sharh", translation: "The Relief", ayahs: 8, revelation: "meccan" },
+  { number: 95, name: "التين", transliteration: "At-Tin", translation: "The Fig", ayahs: 8, revelation: "meccan" },
+  { number: 96, name: "العلق", transliteration: "Al-'Alaq", translation: "The Clot", ayahs: 19, revelation: "meccan" },
+  { number: 97, name: "القدر", transliteration: "Al-Qadr", translation: "The Power", ayahs: 5, revelation: "meccan" },
+  { number: 98, name: "البينة", transliteration: "Al-Bayyinah", translation: "The Clear Proof", ayahs: 8, revelation: "medinan" },
+  { number: 99, name: "الزلزلة", transliteration: "Az-Zalzalah", translation: "The Earthquake", ayahs: 8, revelation: "medinan" },
+  { number: 100, name: "العاديات", transliteration: "Al-'Adiyat", translation: "The Courser", ayahs: 11, revelation: "meccan" },
+  { number: 101, name: "القارعة", transliteration: "Al-Qari'ah", translation: "The Calamity", ayahs: 11, revelation: "meccan" },
+  { number: 102, name: "التكاثر", transliteration: "At-Takathur", translation: "The Rivalry in world increase", ayahs: 8, revelation: "meccan" },
+  { number: 103, name: "العصر", transliteration: "Al-'Asr", translation: "The Declining Day", ayahs: 3, revelation: "meccan" },
+  { number: 104, name: "الهمزة", transliteration: "Al-Humazah", translation: "The Traducer", ayahs: 9, revelation: "meccan" },
+  { number: 105, name: "الفيل", transliteration: "Al-Fil", translation: "The Elephant", ayahs: 5, revelation: "meccan" },
+  { number: 106, name: "قريش", transliteration: "Quraysh", translation: "Quraysh", ayahs: 4, revelation: "meccan" },
+  { number: 107, name: "الماعون", transliteration: "Al-Ma'un", translation: "The Small kindnesses", ayahs: 7, revelation: "meccan" },
+  { number: 108, name: "الكوثر", transliteration: "Al-Kawthar", translation: "The Abundance", ayahs: 3, revelation: "meccan" },
+  { number: 109, name: "الكافرون", transliteration: "Al-Kafirun", translation: "The Disbelievers", ayahs: 6, revelation: "meccan" },
+  { number: 110, name: "النصر", transliteration: "An-Nasr", translation: "The Divine Support", ayahs: 3, revelation: "medinan" },
+  { number: 111, name: "المسد", transliteration: "Al-Masad", translation: "The Palm Fiber", ayahs: 5, revelation: "meccan" },
+  { number: 112, name: "الإخلاص", transliteration: "Al-Ikhlas", translation: "The Sincerity", ayahs: 4, revelation: "meccan" },
+  { number: 113, name: "الفلق", transliteration: "Al-Falaq", translation: "The Daybreak", ayahs: 5, revelation: "meccan" },
+  { number: 114, name: "الناس", transliteration: "An-Nas", translation: "Mankind", ayahs: 6, revelation: "meccan" },
+];
+
+/**
+ * Returns the metadata for a surah, or undefined if the number is out of range
+ */
+export const getSurah = (surah: number): SurahInfo | undefined =>
+  SURAHS[surah - 1];
+
+// "Surah Al-Mulk", "al mulk" and "Mulk" all compare equal
+const normalizeSurahName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/^(?:surah|sura|surat)\s+/, "")
+    .replace(/^a[a-z]{1,2}[- ]/, "")
+    .replace(/[^a-z]/g, "");
+
+/**
+ * Finds a surah by its transliterated or translated name
+ */
+export const findSurahByName = (name: string): SurahInfo | undefined => {
+  const normalized = normalizeSurahName(name);
+  return SURAHS.find(
+    (surah) =>
+      normalizeSurahName(surah.transliteration) === normalized ||
+      normalizeSurahName(surah.translation) === normalized
+  );
+};
+
+/**
+ * Parses a verse reference such as "2:255", "2:255-257", "67" or
+ * "Al-Mulk 1-10" and validates it against the surah's ayah count.
+ * Throws an Error describing the problem for invalid references.
+ */
+export const parseVerseRange = (reference: string): VerseRange => {
+  const match = reference
+    .trim()
+    .match(/^(\d+|[a-z][a-z' -]*?)\s*(?:[:\s]\s*(\d+)\s*(?:-\s*(\d+))?)?$/i);
+  if (!match) {
+    throw new Error(
+      `Invalid verse reference '${reference}'. Use forms like '2:255', '2:255-257' or '67'.`
+    );
+  }
+
+  const [, surahPart, fromPart, toPart] = match;
+  const info = /^\d+$/.test(surahPart)
+    ? getSurah(Number(surahPart))
+    : findSurahByName(surahPart);
+  if (!info) {
+    throw new Error(
+      /^\d+$/.test(surahPart)
+        ? "Surah number must be between 1 and 114."
+        : `Unknown surah '${surahPart}'.`
+    );
+  }
+
+  const fromAyah = fromPart ? Number(fromPart) : 1;
+  const toAyah = toPart ? Number(toPart) : fromPart ? fromAyah : info.ayahs;
+
+  if (fromAyah < 1 || toAyah > info.ayahs) {
+    throw new Error(
+      `Surah ${info.number} (${info.transliteration}) has ${info.ayahs} ayahs.`
+    );
+  }
+  if (toAyah < fromAyah) {
+    throw new Error(`Invalid verse range ${info.number}:${fromAyah}-${toAyah}.`);
+  }
+
+  return { surah: info.number, fromAyah, toAyah };
+};
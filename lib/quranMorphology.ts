@@ -0,0 +1,131 @@
+import { normalizeText } from "./textSearch";
+
+// A word of the Quran, located as "surah:ayah:word"
+export interface MorphologyWord {
+  location: string;
+  arabic: string;
+  gloss?: string;
+  transliteration?: string;
+  root?: string;
+  lemma?: string;
+  pos: string;
+  features: string[];
+}
+
+// Shape of the files written by scripts/import-morphology.mjs
+export interface MorphologySurahFile {
+  surah: number;
+  words: MorphologyWord[];
+}
+
+interface MorphologyLexicon {
+  // Locations of every word, by root and by normalized form
+  roots: Record<string, string[]>;
+  forms: Record<string, string[]>;
+}
+
+interface MorphologyManifest {
+  surahs: number[];
+}
+
+export interface RootOccurrences {
+  root: string;
+  total: number;
+  // Number of occurrences per surah, in surah order
+  bySurah: { surah: number; count: number }[];
+  locations: string[];
+}
+
+const loadSurahFile = (surah: number): Promise<{ default: MorphologySurahFile }> =>
+  import(`../data/morphology/${surah}.json`);
+
+const loadLexicon = async (): Promise<MorphologyLexicon> =>
+  (await import("../data/morphology/lexicon.json")).default;
+
+const loadManifest = async (): Promise<MorphologyManifest> =>
+  (await import("../data/morphology/index.json")).default;
+
+const surahs = new Map<number, Promise<MorphologySurahFile>>();
+
+const getSurahFile = async (surah: number) => {
+  const { surahs: available } = await loadManifest();
+  if (!available.includes(surah)) {
+    return null;
+  }
+
+  let file = surahs.get(surah);
+  if (!file) {
+    file = loadSurahFile(surah).then((module) => module.default);
+    surahs.set(surah, file);
+  }
+  return file;
+};
+
+/**
+ * Returns the surahs covered by the imported morphology data
+ */
+export const getMorphologyCoverage = async () => (await loadManifest()).surahs;
+
+/**
+ * Returns the words of a verse in order, or null if the surah has not
+ * been imported
+ */
+export const getVerseWords = async (surah: number, ayah: number) => {
+  const file = await getSurahFile(surah);
+  if (!file) return null;
+
+  const prefix = `${surah}:${ayah}:`;
+  return file.words.filter(({ location }) => location.startsWith(prefix));
+};
+
+/**
+ * Returns the word at a "surah:ayah:word" location
+ */
+export const getWordAt = async (location: string) => {
+  const [surah, ayah] = location.split(":").map(Number);
+  const words = await getVerseWords(surah, ayah);
+  return words?.find((word) => word.location === location);
+};
+
+// Dagger alefs are dropped in the corpus spelling, so compare without alef
+const withoutAlef = (text: string) => text.replace(/ا/g, "");
+
+/**
+ * Finds the locations of an Arabic word, ignoring diacritics and spelling
+ * variants of alef
+ */
+export const findWordLocations = async (arabic: string) => {
+  const { forms } = await loadLexicon();
+  const key = normalizeText(arabic.trim());
+  if (forms[key]) {
+    return forms[key];
+  }
+
+  const stripped = withoutAlef(key);
+  return Object.entries(forms)
+    .filter(([form]) => withoutAlef(form) === stripped)
+    .flatMap(([, locations]) => locations);
+};
+
+/**
+ * Lists where a root occurs, with counts per surah
+ */
+export const getRootOccurrences = async (root: string): Promise<RootOccurrences> => {
+  const { roots } = await loadLexicon();
+  const locations = roots[root] || [];
+
+  const counts = new Map<number, number>();
+  for (const location of locations) {
+    const surah = Number(location.split(":")[0]);
+    counts.set(surah, (counts.get(surah) || 0) + 1);
+  }
+
+  return {
+    root,
+    total: locations.length,
+    bySurah: [...counts.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([surah, count]) => ({ surah, count })),
+    locations,
+  };
+};
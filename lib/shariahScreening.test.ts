@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { classifyActivity, screenCompany } from "./shariahScreening";
+
+// A company exactly at the 30% and 5% limits
+const atLimits = {
+  marketCap: 1000,
+  totalDebt: 300,
+  cashAndInterestBearing: 300,
+  totalRevenue: 100,
+  interestIncome: 5,
+};
+
+describe("screenCompany", () => {
+  it("passes ratios equal to the AAOIFI maximums", () => {
+    const result = screenCompany(atLimits, "AAOIFI");
+    expect(result.criteria.map(({ passed }) => passed)).toEqual([true, true, true]);
+    expect(result.compliant).toBe(true);
+  });
+
+  it("fails ratios above the AAOIFI maximums", () => {
+    const result = screenCompany({ ...atLimits, totalDebt: 301 }, "AAOIFI");
+    expect(result.criteria[0].passed).toBe(false);
+    expect(result.compliant).toBe(false);
+  });
+
+  it("fails ratios equal to the limit of standards that require less", () => {
+    const result = screenCompany({ ...atLimits, totalDebt: 330, cashAndInterestBearing: 0 }, "DJIM");
+    expect(result.criteria[0].passed).toBe(false);
+  });
+
+  it("leaves criteria without figures unassessed", () => {
+    const result = screenCompany({ marketCap: 1000, totalDebt: 100 }, "AAOIFI");
+    expect(result.criteria.map(({ passed }) => passed)).toEqual([true, null, null]);
+    expect(result.compliant).toBeNull();
+  });
+});
+
+describe("classifyActivity", () => {
+  it("recognises prohibited business lines and their plurals", () => {
+    expect(classifyActivity("Wines and spirits")).toBe("Alcohol");
+    expect(classifyActivity("Breweries")).toBe("Alcohol");
+    expect(classifyActivity("Cigarettes")).toBe("Tobacco");
+    expect(classifyActivity("Small arms and ammunition")).toBe("Weapons and defence");
+    expect(classifyActivity("Munitions")).toBe("Weapons and defence");
+  });
+
+  it("does not match words that only start like a prohibited one", () => {
+    for (const name of ["Armstrong flooring", "Armature winding", "Winemiller logistics", "Beerbaum consulting", "Distillate fuels"]) {
+      expect(classifyActivity(name), name).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Shariah screening of listed companies: a business activity screen and
+ * financial ratio screens against published index methodologies, plus
+ * dividend purification. All figures are supplied by the caller or the
+ * local fixture in data/companies.json; nothing is fetched.
+ */
+
+export type ScreeningStandard = "AAOIFI" | "DJIM" | "MSCI" | "SP";
+
+// The value each ratio is divided by
+type Denominator = "marketCap" | "totalAssets";
+
+export interface ScreeningThresholds {
+  denominator: Denominator;
+  // Maximum ratios, as fractions
+  debt: number;
+  cashAndInterestBearing: number;
+  receivables?: number;
+  nonPermissibleIncome: number;
+}
+
+interface StandardParameters extends ScreeningThresholds {
+  name: string;
+  // Whether a ratio equal to its maximum passes ("must not exceed") rather
+  // than fails ("must be less than")
+  inclusive?: boolean;
+}
+
+export const SCREENING_STANDARDS: Record<ScreeningStandard, StandardParameters> = {
+  AAOIFI: {
+    name: "AAOIFI Shariah Standard No. 21",
+    inclusive: true,
+    denominator: "marketCap",
+    debt: 0.3,
+    cashAndInterestBearing: 0.3,
+    nonPermissibleIncome: 0.05,
+  },
+  DJIM: {
+    name: "Dow Jones Islamic Market Indices",
+    denominator: "marketCap",
+    debt: 0.33,
+    cashAndInterestBearing: 0.33,
+    receivables: 0.33,
+    nonPermissibleIncome: 0.05,
+  },
+  MSCI: {
+    name: "MSCI Islamic Indexes",
+    denominator: "totalAssets",
+    debt: 0.3333,
+    cashAndInterestBearing: 0.3333,
+    receivables: 0.3333,
+    nonPermissibleIncome: 0.05,
+  },
+  SP: {
+    name: "S&P Shariah Indices",
+    denominator: "marketCap",
+    debt: 0.33,
+    cashAndInterestBearing: 0.33,
+    receivables: 0.49,
+    nonPermissibleIncome: 0.05,
+  },
+};
+
+// Business lines excluded by all of the standards above
+const PROHIBITED_ACTIVITIES: [RegExp, string][] = [
+  [/\b(bank|banking|lending|loan|mortgage|credit card|brokerage|insurance|reinsurance)\b/i, "Conventional finance and insurance"],
+  [/\b(alcohol|alcoholic|beers?|wines?|winery|wineries|spirits|brewers?|brewery|breweries|brewing|distill(?:s|ed|ing|ers?|ery|eries)?|liquors?)\b/i, "Alcohol"],
+  [/\b(pork|pigs?|swine|ham|bacon)\b/i, "Pork"],
+  [/\b(gambling|casino|betting|lottery)\b/i, "Gambling"],
+  [/\b(tobacco|cigarettes?|cigars?|vapes?|vaping)\b/i, "Tobacco"],
+  [/\b(adult entertainment|pornography|pornographic)\b/i, "Adult entertainment"],
+  [/\b(weapons?|arms|firearms|defen[cs]e|munitions?|ammunition)\b/i, "Weapons and defence"],
+  [/\b(interest income)\b/i, "Interest income"],
+];
+
+export interface BusinessActivity {
+  name: string;
+  revenue: number;
+}
+
+export interface CompanyFinancials {
+  name?: string;
+  // Market capitalisation, ideally averaged over 12-36 months
+  marketCap?: number;
+  totalAssets?: number;
+  // Interest-bearing debt
+  totalDebt?: number;
+  cashAndInterestBearing?: number;
+  receivables?: number;
+  totalRevenue?: number;
+  interestIncome?: number;
+  // Revenue from prohibited activities not listed in `activities`
+  nonPermissibleRevenue?: number;
+  activities?: BusinessActivity[];
+}
+
+// Entry in data/companies.json
+export interface CompanyFixture extends CompanyFinancials {
+  ticker?: string;
+}
+
+export interface ScreeningCriterion {
+  criterion: string;
+  // null when the inputs for the ratio were not supplied
+  ratio: number | null;
+  threshold: number;
+  passed: boolean | null;
+}
+
+export interface ScreeningResult {
+  standard: string;
+  prohibitedActivities: { name: string; category: string; revenue: number }[];
+  criteria: ScreeningCriterion[];
+  // null when some criteria could not be assessed and none failed
+  compliant: boolean | null;
+  nonPermissibleIncomeRatio: number | null;
+}
+
+/**
+ * Returns the prohibited category of a business line, if any
+ */
+export const classifyActivity = (name: string) =>
+  PROHIBITED_ACTIVITIES.find(([pattern]) => pattern.test(name))?.[1];
+
+const ratio = (value?: number, total?: number) =>
+  value === undefined || !total ? null : value / total;
+
+/**
+ * Screens a company against a standard, optionally overriding its thresholds
+ */
+export const screenCompany = (
+  company: CompanyFinancials,
+  standard: ScreeningStandard = "AAOIFI",
+  overrides: Partial<ScreeningThresholds> = {}
+): ScreeningResult => {
+  const params = SCREENING_STANDARDS[standard];
+  if (!params) {
+    throw new Error(`Unknown screening standard '${standard}'.`);
+  }
+  const thresholds = { ...params, ...overrides };
+
+  const values = Object.entries(company).filter(([, value]) => typeof value === "number");
+  if (values.some(([, value]) => value < 0)) {
+    throw new Error("Financial figures cannot be negative.");
+  }
+
+  const prohibitedActivities = (company.activities || []).flatMap(({ name, revenue }) => {
+    const category = classifyActivity(name);
+    return category ? [{ name, category, revenue }] : [];
+  });
+
+  // Non-permissible income includes interest and prohibited business lines
+  const activityRevenue = company.activities?.reduce((sum, { revenue }) => sum + revenue, 0);
+  const totalRevenue = company.totalRevenue ?? activityRevenue;
+  const hasIncomeFigures =
+    company.activities !== undefined ||
+    company.interestIncome !== undefined ||
+    company.nonPermissibleRevenue !== undefined;
+  const nonPermissibleIncome = hasIncomeFigures
+    ? prohibitedActivities.reduce((sum, { revenue }) => sum + revenue, 0) +
+      (company.interestIncome ?? 0) +
+      (company.nonPermissibleRevenue ?? 0)
+    : undefined;
+  const nonPermissibleIncomeRatio = ratio(nonPermissibleIncome, totalRevenue);
+
+  const denominator = company[thresholds.denominator];
+  const denominatorLabel = thresholds.denominator === "marketCap" ? "market cap" : "total assets";
+
+  const criteria: ScreeningCriterion[] = [
+    {
+      criterion: `Interest-bearing debt / ${denominatorLabel}`,
+      ratio: ratio(company.totalDebt, denominator),
+      threshold: thresholds.debt,
+    },
+    {
+      criterion: `Cash and interest-bearing securities / ${denominatorLabel}`,
+      ratio: ratio(company.cashAndInterestBearing, denominator),
+      threshold: thresholds.cashAndInterestBearing,
+    },
+    ...(thresholds.receivables !== undefined
+      ? [{
+          criterion: `Accounts receivable / ${denominatorLabel}`,
+          ratio: ratio(company.receivables, denominator),
+          threshold: thresholds.receivables,
+        }]
+      : []),
+    {
+      criterion: "Non-permissible income / total revenue",
+      ratio: nonPermissibleIncomeRatio,
+      threshold: thresholds.nonPermissibleIncome,
+    },
+  ].map((criterion) => ({
+    ...criterion,
+    passed:
+      criterion.ratio === null
+        ? null
+        : params.inclusive
+          ? criterion.ratio <= criterion.threshold
+          : criterion.ratio < criterion.threshold,
+  }));
+
+  const passed = criteria.map((criterion) => criterion.passed);
+  const compliant = passed.includes(false) ? false : passed.includes(null) ? null : true;
+
+  return {
+    standard: params.name,
+    prohibitedActivities,
+    criteria,
+    compliant,
+    nonPermissibleIncomeRatio,
+  };
+};
+
+/**
+ * Returns the part of a dividend to give to charity: the dividend times
+ * the company's share of non-permissible income
+ */
+export const calculatePurification = (dividends: number, nonPermissibleIncomeRatio: number) =>
+  dividends * nonPermissibleIncomeRatio;
+
+let companiesPromise: Promise<CompanyFixture[]> | null = null;
+
+/**
+ * Finds a company in the local fixture by name or ticker
+ */
+export const findCompany = async (query: string) => {
+  if (!companiesPromise) {
+    companiesPromise = import("../data/companies.json").then(
+      (module) => module.default.companies as CompanyFixture[]
+    );
+  }
+
+  const key = query.trim().toLowerCase();
+  return (await companiesPromise).find(
+    (company) => company.ticker?.toLowerCase() === key || company.name?.toLowerCase() === key
+  );
+};
@@ -0,0 +1,101 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import schema from "@/convex/schema";
+import { StreamMessageType } from "./types";
+
+const SERVICE_KEY = "test-service-key";
+
+// The runs talk to convex-test in place of the deployment
+const backend = vi.hoisted(() => ({ t: null as unknown }));
+vi.mock("./convex", () => ({
+  getConvexClient: () => backend.t,
+  getServiceIdentity: (userId: string) => ({ key: "test-service-key", userId }),
+}));
+
+const { getStreamRun, startStreamRun, stopStreamRun } = await import("./streamRuns");
+
+let chatId: Id<"chats">;
+
+beforeEach(async () => {
+  vi.stubEnv("CONVEX_SERVICE_KEY", SERVICE_KEY);
+  vi.useFakeTimers();
+  const t = convexTest(schema, import.meta.glob("../convex/**/!(*.test).ts"));
+  backend.t = t;
+  chatId = await t.withIdentity({ subject: "alice" }).mutation(api.chats.createChat, { title: "Chat" });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("stream runs", () => {
+  it("cancels a run nobody reconnects to", async () => {
+    const run = (await startStreamRun(chatId, "alice"))!;
+    const disconnect = run.connect();
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    disconnect();
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(run.signal.aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(11_000);
+    expect(run.signal.aborted).toBe(true);
+    await run.finish();
+  });
+
+  it("keeps a run going when the client reconnects in time", async () => {
+    const run = (await startStreamRun(chatId, "alice"))!;
+    run.connect()();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    const resumed = (await getStreamRun(chatId, "alice"))!;
+    resumed.connect();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(run.signal.aborted).toBe(false);
+    await run.finish();
+  });
+
+  it("stops a run from a stop request", async () => {
+    const run = (await startStreamRun(chatId, "alice"))!;
+    expect(await startStreamRun(chatId, "alice")).toBeNull();
+
+    expect(await stopStreamRun(chatId, "alice")).toBe(true);
+    expect(run.signal.aborted).toBe(true);
+    await run.finish();
+    expect(await stopStreamRun(chatId, "alice")).toBe(false);
+  });
+
+  it("replays events to a connection on another instance", async () => {
+    const run = (await startStreamRun(chatId, "alice"))!;
+    run.publish({ type: StreamMessageType.Connected });
+    run.publish({ type: StreamMessageType.Token, token: "Salam" });
+    await run.finish();
+
+    // Finished runs are read back from Convex
+    const resumed = (await getStreamRun(chatId, "alice"))!;
+    expect(resumed).not.toBe(run);
+    expect(resumed.owns(`${run.id}:1`)).toBe(true);
+
+    const received: unknown[] = [];
+    await new Promise<void>((resolve) => {
+      resumed.subscribe((event) => {
+        if (event) received.push(event);
+        else resolve();
+      }, `${run.id}:1`);
+    });
+    expect(received).toEqual([{ id: `${run.id}:2`, message: { type: StreamMessageType.Token, token: "Salam" } }]);
+  });
+
+  it("forgets runs a minute after they finish", async () => {
+    const run = (await startStreamRun(chatId, "alice"))!;
+    await run.finish();
+    expect(await getStreamRun(chatId, "alice")).not.toBeNull();
+
+    await vi.advanceTimersByTimeAsync(61_000);
+    expect(await getStreamRun(chatId, "alice")).toBeNull();
+  });
+});
@@ -0,0 +1,254 @@
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import type { ServiceIdentity } from "@/convex/lib/auth";
+import { getConvexClient, getServiceIdentity } from "./convex";
+import { StreamMessage } from "./types";
+
+// A stream message with the id it was sent under
+export interface StreamEvent {
+  id: string;
+  message: StreamMessage;
+}
+
+// Called with each event, then with null once the run has finished
+type StreamListener = (event: StreamEvent | null) => void;
+
+// How long a finished run's events stay available to reconnecting clients
+const FINISHED_RUN_TTL_MS = 60_000;
+
+// How often the generating instance writes its new events to Convex, and
+// learns whether the run was stopped or abandoned
+const FLUSH_INTERVAL_MS = 500;
+
+// How often a connection on another instance checks for new events
+const POLL_INTERVAL_MS = 500;
+
+// How long a run keeps going with no connection following it. Longer than
+// the client's reconnect attempts take, so only a client that is gone for
+// good cancels its reply
+const RECONNECT_WINDOW_MS = 30_000;
+
+const eventId = (runId: string, seq: number) => `${runId}:${seq}`;
+
+// Sequence number of an event id; 0 replays the run from the start
+const sequenceOf = (lastEventId?: string) => (lastEventId ? Number(lastEventId.split(":")[1]) || 0 : 0);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A reply being generated, as seen by a connection following it. Event ids
+ * are `<run id>:<sequence>`, which lets a reconnect tell whether it is
+ * still talking about the same run.
+ */
+export interface StreamRun {
+  id: string;
+  // Whether an event id was sent by this run
+  owns: (eventId: string) => boolean;
+  /**
+   * Replays the events after `lastEventId` (all of them when omitted) and
+   * then follows the run live. Returns a function that stops listening.
+   */
+  subscribe: (listener: StreamListener, lastEventId?: string) => () => void;
+  /**
+   * Counts a connection following the run until the returned function is
+   * called. A run nobody follows for RECONNECT_WINDOW_MS is cancelled.
+   */
+  connect: () => () => void;
+}
+
+// Connection bookkeeping and ids shared by both kinds of run
+const createRunHandle = (id: Id<"streamRuns">, service: ServiceIdentity) => ({
+  id,
+  owns: (eventId: string) => eventId.split(":")[0] === id,
+  connect: () => {
+    const convex = getConvexClient();
+    const connected = convex
+      .mutation(api.streamRuns.connect, { runId: id, service })
+      .catch((error) => console.error("Failed to record stream connection:", error));
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      connected
+        .then(() => convex.mutation(api.streamRuns.disconnect, { runId: id, service }))
+        .catch((error) => console.error("Failed to record stream disconnection:", error));
+    };
+  },
+});
+
+/**
+ * Buffers the events of a chat's reply while this instance generates it.
+ * Followers on this instance get them from memory; they are written to
+ * Convex as well, so a client whose connection dropped can reconnect
+ * through any instance and replay what it missed.
+ */
+const createStreamRun = (id: Id<"streamRuns">, chatId: string, service: ServiceIdentity) => {
+  const convex = getConvexClient();
+  const events: StreamEvent[] = [];
+  const listeners = new Set<StreamListener>();
+  const abort = new AbortController();
+  let finished = false;
+
+  // Events are written in order, one batch at a time
+  let written = 0;
+  let writing: Promise<void> = Promise.resolve();
+  let isWriteQueued = false;
+
+  const write = (isLast = false) => {
+    if (isWriteQueued && !isLast) return writing;
+    isWriteQueued = true;
+    writing = writing.then(async () => {
+      isWriteQueued = false;
+      const batch = events.slice(written);
+      try {
+        const { stopRequested, unfollowedFor } = await convex.mutation(api.streamRuns.append, {
+          runId: id,
+          events: batch.map(({ message }, index) => ({
+            seq: written + index + 1,
+            message: JSON.stringify(message),
+          })),
+          finished: isLast || undefined,
+          service,
+        });
+        written += batch.length;
+
+        if (!abort.signal.aborted && (stopRequested || unfollowedFor > RECONNECT_WINDOW_MS)) {
+          if (!stopRequested) console.log(`Nobody follows run ${id} any more, stopping it`);
+          abort.abort();
+        }
+      } catch (error) {
+        console.error("Failed to save stream events to Convex:", error);
+      }
+    });
+    return writing;
+  };
+  const writer = setInterval(() => write(), FLUSH_INTERVAL_MS);
+
+  const publish = (message: StreamMessage) => {
+    if (finished) return;
+    const event = { id: eventId(id, events.length + 1), message };
+    events.push(event);
+    listeners.forEach((listener) => listener(event));
+  };
+
+  // Writes the last events and ends every connection following the run
+  const finish = async () => {
+    if (finished) return;
+    finished = true;
+    clearInterval(writer);
+    await write(true);
+    listeners.forEach((listener) => listener(null));
+    listeners.clear();
+    // Later connections read the run from Convex
+    if (generatingRuns.get(chatId)?.id === id) generatingRuns.delete(chatId);
+  };
+
+  const subscribe = (listener: StreamListener, lastEventId?: string) => {
+    events.slice(sequenceOf(lastEventId)).forEach((event) => listener(event));
+
+    if (finished) {
+      listener(null);
+      return () => {};
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    ...createRunHandle(id, service),
+    signal: abort.signal,
+    publish,
+    finish,
+    subscribe,
+    // Cancels the run; it finishes once it has saved what it produced
+    stop: () => abort.abort(),
+  };
+};
+
+export type GeneratingStreamRun = ReturnType<typeof createStreamRun>;
+
+// Follows a run generated by another instance through Convex
+const followStreamRun = (id: Id<"streamRuns">, service: ServiceIdentity): StreamRun => ({
+  ...createRunHandle(id, service),
+  subscribe: (listener, lastEventId) => {
+    const convex = getConvexClient();
+    let after = sequenceOf(lastEventId);
+    let stopped = false;
+
+    (async () => {
+      while (!stopped) {
+        try {
+          const { events, finished } = await convex.query(api.streamRuns.events, {
+            runId: id,
+            after,
+            service,
+          });
+          for (const { seq, message } of events) {
+            if (stopped) return;
+            after = seq;
+            listener({ id: eventId(id, seq), message: JSON.parse(message) });
+          }
+          if (finished) {
+            if (!stopped) listener(null);
+            return;
+          }
+        } catch (error) {
+          console.error("Failed to read stream events from Convex:", error);
+        }
+        await sleep(POLL_INTERVAL_MS);
+      }
+    })();
+
+    return () => {
+      stopped = true;
+    };
+  },
+});
+
+// Runs this instance is generating, by chat id
+const generatingRuns = new Map<string, GeneratingStreamRun>();
+
+/**
+ * Starts buffering a new reply for a chat. Returns null while another reply
+ * is still being generated for it, by any instance.
+ */
+export const startStreamRun = async (chatId: Id<"chats">, userId: string) => {
+  const service = getServiceIdentity(userId);
+  const id = await getConvexClient().mutation(api.streamRuns.start, { chatId, service });
+  if (!id) return null;
+
+  const run = createStreamRun(id, chatId, service);
+  generatingRuns.set(chatId, run);
+  return run;
+};
+
+/**
+ * Returns the chat's current or recently finished run, if it belongs to
+ * the user
+ */
+export const getStreamRun = async (chatId: Id<"chats">, userId: string): Promise<StreamRun | null> => {
+  const service = getServiceIdentity(userId);
+  const run = await getConvexClient().query(api.streamRuns.get, { chatId, service });
+  if (!run || (run.finished && Date.now() - run.finishedAt > FINISHED_RUN_TTL_MS)) {
+    return null;
+  }
+
+  const generating = generatingRuns.get(chatId);
+  return generating?.id === run.id ? generating : followStreamRun(run.id, service);
+};
+
+/**
+ * Stops the chat's reply in progress, wherever it is being generated.
+ * Returns false when there is none.
+ */
+export const stopStreamRun = async (chatId: Id<"chats">, userId: string) => {
+  const stopped = await getConvexClient().mutation(api.streamRuns.stop, {
+    chatId,
+    service: getServiceIdentity(userId),
+  });
+  // The instance generating it finds out on its next write; save it the wait
+  if (stopped) generatingRuns.get(chatId)?.stop();
+  return stopped;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { loadFixtureManifest, loadFixtureWork } from "./__fixtures__/tafsir";
+import { chunkText, createLocalTafsirSource } from "./tafsirSource";
+
+const createFixtureTafsirSource = () => createLocalTafsirSource(loadFixtureWork, loadFixtureManifest);
+
+describe("createLocalTafsirSource", () => {
+  it("lists the works in the manifest", async () => {
+    expect(await createFixtureTafsirSource().listWorks()).toEqual([
+      { id: "example", name: "Example Tafsir", language: "English" },
+    ]);
+  });
+
+  it("returns the passages overlapping a range, grouped ones once", async () => {
+    const passages = await createFixtureTafsirSource().getTafsir("example", 1, 3, 5);
+    expect(passages.map(({ fromAyah, toAyah }) => [fromAyah, toAyah])).toEqual([
+      [2, 4],
+      [5, 5],
+    ]);
+  });
+
+  it("returns nothing for ayahs the work does not cover", async () => {
+    expect(await createFixtureTafsirSource().getTafsir("example", 3, 1, 2)).toEqual([]);
+  });
+
+  it("rejects an unknown work, naming the available ones", async () => {
+    await expect(createFixtureTafsirSource().getTafsir("jalalayn", 1, 1, 1)).rejects.toThrow(
+      "Unknown tafsir 'jalalayn' (available: example)"
+    );
+  });
+});
+
+describe("chunkText", () => {
+  it("keeps short text whole", () => {
+    expect(chunkText("  A short passage.  ", 100)).toEqual(["A short passage."]);
+  });
+
+  it("breaks at paragraphs first", () => {
+    const text = `${"a".repeat(60)}.\n\n${"b".repeat(60)}.`;
+    expect(chunkText(text, 100)).toEqual([`${"a".repeat(60)}.`, `${"b".repeat(60)}.`]);
+  });
+
+  it("breaks at sentences, then words, when a paragraph is too long", () => {
+    const sentences = "One two three four five. Six seven eight nine ten. Eleven twelve.";
+    expect(chunkText(sentences, 52)).toEqual(["One two three four five. Six seven eight nine ten.", "Eleven twelve."]);
+
+    const words = "alpha beta gamma delta epsilon zeta eta theta";
+    expect(chunkText(words, 20)).toEqual(["alpha beta gamma", "delta epsilon zeta", "eta theta"]);
+  });
+
+  it("cuts text with no break at the limit", () => {
+    expect(chunkText("x".repeat(25), 10)).toEqual(["x".repeat(10), "x".repeat(10), "x".repeat(5)]);
+  });
+
+  it("never exceeds the limit and loses no words", async () => {
+    const [passage] = await createFixtureTafsirSource().getTafsir("example", 2, 255, 255);
+    const chunks = chunkText(passage.text, 500);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(500));
+    expect(chunks.join(" ").split(/\s+/)).toEqual(passage.text.split(/\s+/));
+  });
+});
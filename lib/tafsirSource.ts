@@ -0,0 +1,241 @@
+export interface TafsirWork {
+  id: string;
+  name: string;
+  language: string;
+}
+
+// A commentary passage; classical works often explain several ayahs at once
+export interface TafsirPassage {
+  surah: number;
+  fromAyah: number;
+  toAyah: number;
+  text: string;
+}
+
+/**
+ * A backend that can serve tafsir (Quran commentary) passages.
+ */
+export interface TafsirSource {
+  listWorks(): Promise<TafsirWork[]>;
+  getTafsir(
+    work: string,
+    surah: number,
+    fromAyah: number,
+    toAyah: number,
+    // Cancels any request still in flight when the caller gives up
+    signal?: AbortSignal
+  ): Promise<TafsirPassage[]>;
+}
+
+// Shape of the commentary files written by scripts/import-tafsir.mjs
+export interface TafsirWorkFile extends TafsirWork {
+  passages: TafsirPassage[];
+}
+
+interface TafsirManifest {
+  works: string[];
+}
+
+type WorkLoader = (work: string) => Promise<{ default: TafsirWorkFile }>;
+
+const loadBundledWork: WorkLoader = (work) =>
+  import(`../data/tafsir/${work}.json`);
+
+const loadBundledManifest = async (): Promise<TafsirManifest> =>
+  (await import("../data/tafsir/index.json")).default;
+
+const QURAN_API_URL = "https://api.quran.com/api/v4";
+
+// Commentaries published by Quran.com, keyed to its resource ids
+const QURAN_COM_TAFSIRS: (TafsirWork & { resourceId: number })[] = [
+  { id: "ibn-kathir", name: "Tafsir Ibn Kathir (abridged)", language: "English", resourceId: 169 },
+  { id: "ibn-kathir-ar", name: "Tafsir Ibn Kathir", language: "Arabic", resourceId: 14 },
+  { id: "tabari", name: "Tafsir al-Tabari", language: "Arabic", resourceId: 15 },
+  { id: "muyassar", name: "Tafsir al-Muyassar", language: "Arabic", resourceId: 16 },
+  { id: "qurtubi", name: "Tafsir al-Qurtubi", language: "Arabic", resourceId: 90 },
+  { id: "saadi", name: "Tafsir al-Sa'di", language: "Arabic", resourceId: 91 },
+];
+
+interface QuranTafsirResponse {
+  tafsir: {
+    text: string;
+    verses: Record<string, unknown>;
+  };
+}
+
+// Converts Quran.com's HTML commentary into plain paragraphs
+const htmlToText = (html: string) =>
+  html
+    .replace(/<\/(p|h\d|div)>|<br\s*\/?>/gi, "\n\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const unknownWork = (work: string, works: TafsirWork[]) =>
+  new Error(
+    `Unknown tafsir '${work}' (available: ${works.map(({ id }) => id).join(", ") || "none"})`
+  );
+
+/**
+ * Tafsir source backed by the Quran.com API
+ */
+export const createHttpTafsirSource = (
+  baseUrl: string = QURAN_API_URL
+): TafsirSource => {
+  const listWorks = async () =>
+    QURAN_COM_TAFSIRS.map(({ id, name, language }) => ({ id, name, language }));
+
+  const getTafsir = async (
+    work: string,
+    surah: number,
+    fromAyah: number,
+    toAyah: number,
+    signal?: AbortSignal
+  ) => {
+    const tafsir = QURAN_COM_TAFSIRS.find(({ id }) => id === work);
+    if (!tafsir) {
+      throw unknownWork(work, QURAN_COM_TAFSIRS);
+    }
+
+    const passages: TafsirPassage[] = [];
+    for (let ayah = fromAyah; ayah <= toAyah; ayah++) {
+      const response = await fetch(
+        `${baseUrl}/tafsirs/${tafsir.resourceId}/by_ayah/${surah}:${ayah}`,
+        { signal }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch tafsir: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as QuranTafsirResponse;
+      const text = htmlToText(data.tafsir?.text || "");
+      if (!text) continue;
+
+      // Grouped commentary is returned once per ayah; keep it only once
+      const previous = passages.at(-1);
+      if (previous && previous.text === text) {
+        previous.toAyah = ayah;
+        continue;
+      }
+
+      // Skip ahead past the other ayahs this passage already covers
+      const covered = Object.keys(data.tafsir.verses || {})
+        .map((key) => Number(key.split(":")[1]))
+        .filter((covered) => covered >= ayah);
+      const lastCovered = Math.min(Math.max(ayah, ...covered), toAyah);
+
+      passages.push({ surah, fromAyah: ayah, toAyah: lastCovered, text });
+      ayah = lastCovered;
+    }
+
+    return passages;
+  };
+
+  return { listWorks, getTafsir };
+};
+
+/**
+ * Tafsir source backed by commentaries imported into data/tafsir
+ */
+export const createLocalTafsirSource = (
+  loadWork: WorkLoader = loadBundledWork,
+  loadManifest: () => Promise<TafsirManifest> = loadBundledManifest
+): TafsirSource => {
+  const works = new Map<string, Promise<TafsirWorkFile>>();
+
+  const getWork = async (work: string) => {
+    const { works: available } = await loadManifest();
+    if (!available.includes(work)) {
+      throw unknownWork(work, await listWorks());
+    }
+
+    let file = works.get(work);
+    if (!file) {
+      file = loadWork(work).then((module) => module.default);
+      works.set(work, file);
+    }
+    return file;
+  };
+
+  const listWorks = async () => {
+    const { works: available } = await loadManifest();
+    const files = await Promise.all(available.map(getWork));
+    return files.map(({ id, name, language }) => ({ id, name, language }));
+  };
+
+  const getTafsir = async (
+    work: string,
+    surah: number,
+    fromAyah: number,
+    toAyah: number
+  ) => {
+    const file = await getWork(work);
+
+    return file.passages
+      .filter(
+        (passage) =>
+          passage.surah === surah &&
+          passage.fromAyah <= toAyah &&
+          passage.toAyah >= fromAyah
+      )
+      .sort((a, b) => a.fromAyah - b.fromAyah);
+  };
+
+  return { listWorks, getTafsir };
+};
+
+/**
+ * Splits long text into chunks of at most maxLength characters, breaking
+ * at paragraph, then sentence, then word boundaries where possible.
+ */
+export const chunkText = (text: string, maxLength: number): string[] => {
+  const chunks: string[] = [];
+  let remaining = text.trim();
+
+  while (remaining.length > maxLength) {
+    const window = remaining.slice(0, maxLength);
+    const breakAt = [
+      window.lastIndexOf("\n\n"),
+      Math.max(window.lastIndexOf(". "), window.lastIndexOf(".\n")) + 1,
+      window.lastIndexOf(" "),
+    ].find((index) => index > maxLength / 2);
+    const end = breakAt ?? maxLength;
+
+    chunks.push(remaining.slice(0, end).trim());
+    remaining = remaining.slice(end).trim();
+  }
+
+  if (remaining) chunks.push(remaining);
+  return chunks;
+};
+
+// Cache the source instance
+let cachedSource: TafsirSource | null = null;
+
+/**
+ * Returns the tafsir source selected by TAFSIR_SOURCE
+ * ("http" or "local", default "http").
+ */
+export const getTafsirSource = () => {
+  if (cachedSource) {
+    return cachedSource;
+  }
+
+  const backend = process.env.TAFSIR_SOURCE || "http";
+
+  switch (backend) {
+    case "http":
+      cachedSource = createHttpTafsirSource(process.env.QURAN_API_URL);
+      break;
+    case "local":
+      cachedSource = createLocalTafsirSource();
+      break;
+    default:
+      throw new Error(`Unknown TAFSIR_SOURCE: ${backend}`);
+  }
+
+  return cachedSource;
+};
@@ -0,0 +1,90 @@
+// Arabic diacritics, Quranic annotation marks and tatweel
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+
+// Common English words that would otherwise match nearly every document
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "he", "in",
+  "is", "it", "of", "on", "or", "that", "the", "they", "this", "to", "was",
+  "were", "will", "with", "you",
+]);
+
+/**
+ * Normalizes text for matching: strips HTML tags, Arabic diacritics and
+ * letter variants, and lowercases Latin script.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, " ")
+    .replace(ARABIC_MARKS, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .toLowerCase();
+}
+
+// Conjunctions and the definite article attached to Arabic words
+const ARABIC_PREFIXES = /^[وف]?(?:ال|بال|كال|لل)(?=\S{3})/;
+
+/**
+ * Splits text into normalized search terms, dropping stop words and
+ * attached Arabic prefixes so "والصبر" matches a search for "الصبر".
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0 && !STOP_WORDS.has(term))
+    .map((term) => term.replace(ARABIC_PREFIXES, ""));
+}
+
+/**
+ * Builds an in-memory inverted index over a list of documents.
+ * Documents matching every query term rank first, then partial matches,
+ * each ordered by how often the terms occur.
+ */
+export function createSearchIndex<T>(
+  documents: T[],
+  getText: (document: T) => string
+) {
+  const postings = new Map<string, Map<number, number>>();
+
+  documents.forEach((document, index) => {
+    for (const term of tokenize(getText(document))) {
+      let counts = postings.get(term);
+      if (!counts) {
+        counts = new Map();
+        postings.set(term, counts);
+      }
+      counts.set(index, (counts.get(index) || 0) + 1);
+    }
+  });
+
+  const search = (
+    query: string,
+    limit: number,
+    filter?: (document: T) => boolean
+  ): T[] => {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const scores = new Map<number, { matched: number; frequency: number }>();
+    for (const term of terms) {
+      for (const [index, count] of postings.get(term) || []) {
+        const score = scores.get(index) || { matched: 0, frequency: 0 };
+        score.matched++;
+        score.frequency += count;
+        scores.set(index, score);
+      }
+    }
+
+    return [...scores.entries()]
+      .filter(([index]) => !filter || filter(documents[index]))
+      .sort(
+        ([indexA, a], [indexB, b]) =>
+          b.matched - a.matched || b.frequency - a.frequency || indexA - indexB
+      )
+      .slice(0, limit)
+      .map(([index]) => documents[index]);
+  };
+
+  return { search };
+}
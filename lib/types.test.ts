@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { chatCompletionRequestSchema } from "./types";
+
+describe("chatCompletionRequestSchema", () => {
+  it("accepts results of caller-defined tools", () => {
+    const parsed = chatCompletionRequestSchema.safeParse({
+      model: "openai-gpt-4o",
+      messages: [
+        { role: "user", content: "What is the weather?" },
+        { role: "assistant", content: null, tool_calls: [{ id: "call_1", type: "function" }] },
+        { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+        { role: "user", content: [{ type: "text", text: "And tomorrow?" }] },
+      ],
+    });
+    expect(parsed.success).toBe(true);
+    expect(parsed.data?.messages.map(({ role, content }) => [role, content])).toEqual([
+      ["user", "What is the weather?"],
+      ["assistant", ""],
+      ["tool", "Sunny"],
+      ["user", "And tomorrow?"],
+    ]);
+  });
+
+  it("rejects unknown roles and empty conversations", () => {
+    expect(chatCompletionRequestSchema.safeParse({ messages: [] }).success).toBe(false);
+    expect(
+      chatCompletionRequestSchema.safeParse({ messages: [{ role: "function", content: "x" }] }).success
+    ).toBe(false);
+  });
+});
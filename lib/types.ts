@@ -1,7 +1,13 @@
+import { z } from "zod";
 import { Id } from "@/convex/_generated/dataModel";
 
 // SSE Constants
 export const SSE_DATA_PREFIX = "data: " as const;
+export const SSE_ID_PREFIX = "id: " as const;
+export const SSE_EVENT_PREFIX = "event: " as const;
+export const SSE_RETRY_PREFIX = "retry: " as const;
+// A comment line, sent to keep idle connections open
+export const SSE_HEARTBEAT = ": heartbeat\n\n" as const;
 export const SSE_DONE_MESSAGE = "[DONE]" as const;
 export const SSE_LINE_DELIMITER = "\n\n" as const;
 
@@ -41,18 +47,30 @@ export interface ConnectedMessage extends BaseStreamMessage {
 
 export interface DoneMessage extends BaseStreamMessage {
   type: StreamMessageType.Done;
+  // The reply as saved by the server
+  messageId?: Id<"messages">;
 }
 
 export interface ToolStartMessage extends BaseStreamMessage {
   type: StreamMessageType.ToolStart;
+  // Identifies the call, so parallel calls can be matched to their ends
+  callId: string;
   tool: string;
   input: unknown;
+  startedAt: number;
 }
 
 export interface ToolEndMessage extends BaseStreamMessage {
   type: StreamMessageType.ToolEnd;
+  callId: string;
   tool: string;
   output: unknown;
+  // Structured data returned with the output, e.g. the hadiths a hadith
+  // tool found; unset for tools that return text only
+  artifact?: unknown;
+  durationMs: number;
+  // Set when the tool threw instead of returning
+  error?: string;
 }
 
 export type StreamMessage =
@@ -63,8 +81,90 @@ export type StreamMessage =
   | ToolStartMessage
   | ToolEndMessage;
 
-export interface ChatRequestBody {
-  messages: Message[];
-  newMessage: string;
-  chatId: Id<"chats">;
+// Progress of an assistant reply saved by the stream route
+export type MessageStatus = "streaming" | "complete" | "aborted" | "error";
+
+// A tool call stored with the reply that made it
+export interface ToolCallRecord {
+  callId: string;
+  tool: string;
+  input: unknown;
+  output?: unknown;
+  // Structured data some tools return alongside their output
+  artifact?: unknown;
+  error?: string;
+  durationMs?: number;
+  // Position in the reply's content where the call was made
+  offset: number;
 }
+
+export type ModelProvider = "groq" | "openai" | "anthropic" | "openai-compatible";
+
+// A chat model as offered in the model picker
+export interface ModelOption {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  supportsTools: boolean;
+}
+
+// Longest message accepted from the client, in characters
+export const MAX_MESSAGE_LENGTH = 8000;
+
+// The client sends only the new message; the history is loaded on the server
+const chatIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9_]+$/, "Invalid chat ID")
+  .transform((id) => id as Id<"chats">);
+
+export const chatRequestSchema = z.object({
+  newMessage: z
+    .string()
+    .trim()
+    .min(1, "Message is empty")
+    .max(MAX_MESSAGE_LENGTH, `Message is longer than ${MAX_MESSAGE_LENGTH} characters`),
+  chatId: chatIdSchema,
+});
+
+export type ChatRequestBody = z.infer<typeof chatRequestSchema>;
+
+// Body of a request to rebuild a chat's conversation summary
+export const summaryRequestSchema = z.object({
+  chatId: chatIdSchema,
+});
+
+// Body of a request to switch the model of a chat
+export const modelRequestSchema = z.object({
+  chatId: chatIdSchema,
+  modelId: z.string().min(1, "Model is empty"),
+});
+
+// Message content in the OpenAI format: a string or a list of parts, of
+// which only text is supported
+const completionContent = z
+  .union([
+    z.string(),
+    z.array(z.object({ type: z.literal("text"), text: z.string() })),
+  ])
+  .nullish()
+  .transform((content) =>
+    Array.isArray(content) ? content.map(({ text }) => text).join("\n") : content ?? ""
+  );
+
+// Request body of the OpenAI-compatible chat completions endpoint. Other
+// OpenAI parameters are accepted and ignored, as are tools defined by the
+// caller and the results of their calls: the agent only calls its own,
+// unless tool_choice is "none"
+export const chatCompletionRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+        content: completionContent,
+      })
+    )
+    .min(1, "messages must not be empty"),
+  stream: z.boolean().optional(),
+  tool_choice: z.unknown().optional(),
+});
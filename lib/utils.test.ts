@@ -0,0 +1,10 @@
+import { describe, expect, it } from "vitest";
+import { escapeHtml } from "./utils";
+
+describe("escapeHtml", () => {
+  it("turns markup into text", () => {
+    expect(escapeHtml(`<img src=x onerror="alert('1')"> & <script>`)).toBe(
+      "&lt;img src=x onerror=&quot;alert(&#39;1&#39;)&quot;&gt; &amp; &lt;script&gt;"
+    );
+  });
+});
@@ -1,6 +1,34 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 
+/**
+ * Escapes content the way messages are stored in Convex (convex/messages.ts)
+ */
+export function escapeMessage(content: string) {
+  return content.replace(/\n/g, "\\n").replace(/\\/g, "\\\\");
+}
+
+/**
+ * Undoes the escaping applied when messages are stored in Convex
+ * (convex/messages.ts): doubled backslashes and literal "\n" sequences
+ */
+export function unescapeMessage(content: string) {
+  return content.replace(/\\\\/g, "\\").replace(/\\n/g, "\n");
+}
+
+/**
+ * Escapes text for interpolation into HTML, so text from tools or users is
+ * shown as written rather than interpreted as markup
+ */
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { calculateLivestockZakat, calculateProduceZakat, calculateWealthZakat } from "./zakat";
+
+const prices = { goldPerGram: 100, silverPerGram: 1 };
+
+describe("calculateWealthZakat", () => {
+  it("charges 2.5% on wealth above the nisab, after liabilities", () => {
+    const zakat = calculateWealthZakat({ cash: 10_000, goldGrams: 20, goldKarat: 18, liabilities: 1_500 }, prices);
+    expect(zakat.items.map(({ value }) => value)).toEqual([10_000, 1_500]);
+    expect(zakat.netWealth).toBe(10_000);
+    expect(zakat.nisab).toBe(595);
+    expect(zakat.zakatDue).toBe(250);
+  });
+
+  it("uses the gold or silver nisab", () => {
+    const assets = { cash: 5_000 };
+    expect(calculateWealthZakat(assets, prices, "silver").nisabMet).toBe(true);
+
+    const gold = calculateWealthZakat(assets, prices, "gold");
+    expect(gold.nisab).toBe(8_500);
+    expect(gold.nisabMet).toBe(false);
+    expect(gold.zakatDue).toBe(0);
+  });
+
+  it("rejects negative amounts and impossible purity", () => {
+    expect(() => calculateWealthZakat({ cash: -1 }, prices)).toThrow("cannot be negative");
+    expect(() => calculateWealthZakat({ goldGrams: 10, goldKarat: 25 }, prices)).toThrow("between 1 and 24 karats");
+  });
+});
+
+describe("calculateLivestockZakat", () => {
+  it("follows the camel table, then counts in forties and fifties", () => {
+    expect(calculateLivestockZakat("camels", 4).due).toEqual([]);
+    expect(calculateLivestockZakat("camels", 24).due).toEqual(["4 sheep"]);
+    expect(calculateLivestockZakat("camels", 36).due).toEqual(["1 bint labun (female camel in its 3rd year)"]);
+    expect(calculateLivestockZakat("camels", 130).due).toEqual([
+      "2 bint labun (female camels in their 3rd year)",
+      "1 hiqqah (female camel in its 4th year)",
+    ]);
+  });
+
+  it("counts cattle in thirties and forties", () => {
+    expect(calculateLivestockZakat("cattle", 29).due).toEqual([]);
+    expect(calculateLivestockZakat("cattle", 70).due).toEqual([
+      "1 tabi' (calf in its 2nd year)",
+      "1 musinnah (cow in its 3rd year)",
+    ]);
+  });
+
+  it("charges one sheep per hundred from 400", () => {
+    expect(calculateLivestockZakat("sheep", 39).due).toEqual([]);
+    expect(calculateLivestockZakat("sheep", 121).due).toEqual(["2 sheep"]);
+    expect(calculateLivestockZakat("sheep", 399).due).toEqual(["3 sheep"]);
+    expect(calculateLivestockZakat("sheep", 550).due).toEqual(["5 sheep"]);
+  });
+});
+
+describe("calculateProduceZakat", () => {
+  it("charges a tenth or half a tenth by irrigation, from five awsuq", () => {
+    expect(calculateProduceZakat(1_000).dueKg).toBe(100);
+    expect(calculateProduceZakat(1_000, "artificial").dueKg).toBe(50);
+    expect(calculateProduceZakat(600).dueKg).toBe(0);
+  });
+});
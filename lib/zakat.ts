@@ -0,0 +1,273 @@
+/**
+ * Zakat arithmetic for monetary wealth, grazing livestock and agricultural
+ * produce, following the majority positions of the four schools.
+ */
+
+// Nisab weights in grams: 20 mithqal of gold and 200 dirhams of silver
+export const GOLD_NISAB_GRAMS = 85;
+export const SILVER_NISAB_GRAMS = 595;
+
+export const ZAKAT_RATE = 0.025;
+
+// Five awsuq (300 sa') of produce, in kilograms
+export const PRODUCE_NISAB_KG = 653;
+
+export type NisabStandard = "gold" | "silver";
+export type Irrigation = "natural" | "artificial" | "mixed";
+export type Livestock = "camels" | "cattle" | "sheep";
+
+export interface ZakatAssets {
+  cash?: number;
+  goldGrams?: number;
+  // Purity of the gold in karats (24 is pure)
+  goldKarat?: number;
+  silverGrams?: number;
+  tradeInventory?: number;
+  receivables?: number;
+  investments?: number;
+  // Short-term debts and bills due now, deducted from the total
+  liabilities?: number;
+}
+
+export interface ZakatPrices {
+  goldPerGram: number;
+  silverPerGram: number;
+}
+
+export interface ZakatLineItem {
+  label: string;
+  value: number;
+}
+
+export interface WealthZakat {
+  items: ZakatLineItem[];
+  liabilities: number;
+  netWealth: number;
+  nisabStandard: NisabStandard;
+  nisab: number;
+  nisabMet: boolean;
+  zakatDue: number;
+}
+
+/**
+ * Reads gold and silver prices per gram from ZAKAT_GOLD_PRICE_PER_GRAM and
+ * ZAKAT_SILVER_PRICE_PER_GRAM, letting explicit values take precedence
+ */
+export const resolveMetalPrices = (
+  goldPerGram?: number,
+  silverPerGram?: number
+): Partial<ZakatPrices> => ({
+  goldPerGram: goldPerGram ?? (Number(process.env.ZAKAT_GOLD_PRICE_PER_GRAM) || undefined),
+  silverPerGram: silverPerGram ?? (Number(process.env.ZAKAT_SILVER_PRICE_PER_GRAM) || undefined),
+});
+
+/**
+ * Calculates zakat on monetary wealth (cash, precious metals, trade goods,
+ * receivables and investments) after deducting short-term liabilities
+ */
+export const calculateWealthZakat = (
+  assets: ZakatAssets,
+  prices: ZakatPrices,
+  nisabStandard: NisabStandard = "silver"
+): WealthZakat => {
+  const values = [
+    assets.cash,
+    assets.goldGrams,
+    assets.silverGrams,
+    assets.tradeInventory,
+    assets.receivables,
+    assets.investments,
+    assets.liabilities,
+  ];
+  if (values.some((value) => value !== undefined && value < 0)) {
+    throw new Error("Asset amounts and liabilities cannot be negative.");
+  }
+
+  const karat = assets.goldKarat ?? 24;
+  if (karat <= 0 || karat > 24) {
+    throw new Error("Gold purity must be between 1 and 24 karats.");
+  }
+
+  const items: ZakatLineItem[] = [
+    { label: "Cash and bank balances", value: assets.cash ?? 0 },
+    {
+      label: `Gold (${assets.goldGrams ?? 0} g at ${karat}K)`,
+      value: (assets.goldGrams ?? 0) * (karat / 24) * prices.goldPerGram,
+    },
+    {
+      label: `Silver (${assets.silverGrams ?? 0} g)`,
+      value: (assets.silverGrams ?? 0) * prices.silverPerGram,
+    },
+    { label: "Trade inventory", value: assets.tradeInventory ?? 0 },
+    { label: "Receivables expected to be repaid", value: assets.receivables ?? 0 },
+    { label: "Investments", value: assets.investments ?? 0 },
+  ].filter(({ value }) => value > 0);
+
+  const total = items.reduce((sum, { value }) => sum + value, 0);
+  const liabilities = assets.liabilities ?? 0;
+  const netWealth = Math.max(0, total - liabilities);
+
+  const nisab =
+    nisabStandard === "gold"
+      ? GOLD_NISAB_GRAMS * prices.goldPerGram
+      : SILVER_NISAB_GRAMS * prices.silverPerGram;
+  const nisabMet = netWealth > 0 && netWealth >= nisab;
+
+  return {
+    items,
+    liabilities,
+    netWealth,
+    nisabStandard,
+    nisab,
+    nisabMet,
+    zakatDue: nisabMet ? netWealth * ZAKAT_RATE : 0,
+  };
+};
+
+export interface LivestockZakat {
+  animals: Livestock;
+  count: number;
+  nisab: number;
+  due: string[];
+}
+
+// Splits a herd into groups of `small` and `large` that cover the most animals
+const bestSplit = (count: number, small: number, large: number) => {
+  let best = { small: 0, large: 0, covered: -1 };
+  for (let l = 0; l * large <= count; l++) {
+    const s = Math.floor((count - l * large) / small);
+    const covered = s * small + l * large;
+    if (covered > best.covered) {
+      best = { small: s, large: l, covered };
+    }
+  }
+  return best;
+};
+
+// Describes animals due by their age, e.g. "2 hiqqah (female camels in their 4th year)"
+const ofAge = (
+  count: number,
+  name: string,
+  animal: string,
+  year: string,
+  animals = `${animal}s`
+) =>
+  count === 1
+    ? `1 ${name} (${animal} in its ${year} year)`
+    : `${count} ${name} (${animals} in their ${year} year)`;
+
+// Camel brackets as [minimum, due]
+const CAMEL_TABLE: [number, string][] = [
+  [5, "1 sheep"],
+  [10, "2 sheep"],
+  [15, "3 sheep"],
+  [20, "4 sheep"],
+  [25, ofAge(1, "bint makhad", "female camel", "2nd")],
+  [36, ofAge(1, "bint labun", "female camel", "3rd")],
+  [46, ofAge(1, "hiqqah", "female camel", "4th")],
+  [61, ofAge(1, "jadha'ah", "female camel", "5th")],
+  [76, ofAge(2, "bint labun", "female camel", "3rd")],
+  [91, ofAge(2, "hiqqah", "female camel", "4th")],
+];
+
+/**
+ * Calculates zakat on freely grazing (sa'imah) livestock held for a lunar
+ * year. Sheep and goats are counted together.
+ */
+export const calculateLivestockZakat = (
+  animals: Livestock,
+  count: number
+): LivestockZakat => {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error("The number of animals must be a whole number.");
+  }
+
+  const due: string[] = [];
+  let nisab: number;
+
+  switch (animals) {
+    case "camels": {
+      nisab = 5;
+      if (count > 120) {
+        const split = bestSplit(count, 40, 50);
+        if (split.small) due.push(ofAge(split.small, "bint labun", "female camel", "3rd"));
+        if (split.large) due.push(ofAge(split.large, "hiqqah", "female camel", "4th"));
+      } else {
+        const bracket = CAMEL_TABLE.filter(([minimum]) => count >= minimum).at(-1);
+        if (bracket) due.push(bracket[1]);
+      }
+      break;
+    }
+    case "cattle": {
+      nisab = 30;
+      if (count >= 60) {
+        const split = bestSplit(count, 30, 40);
+        if (split.small) due.push(ofAge(split.small, "tabi'", "calf", "2nd", "calves"));
+        if (split.large) due.push(ofAge(split.large, "musinnah", "cow", "3rd"));
+      } else if (count >= 40) {
+        due.push(ofAge(1, "musinnah", "cow", "3rd"));
+      } else if (count >= 30) {
+        due.push(ofAge(1, "tabi'", "calf", "2nd"));
+      }
+      break;
+    }
+    case "sheep": {
+      nisab = 40;
+      if (count >= 400) {
+        due.push(`${Math.floor(count / 100)} sheep`);
+      } else if (count >= 201) {
+        due.push("3 sheep");
+      } else if (count >= 121) {
+        due.push("2 sheep");
+      } else if (count >= 40) {
+        due.push("1 sheep");
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown livestock '${animals}'.`);
+  }
+
+  return { animals, count, nisab, due };
+};
+
+// Share of the harvest due, by how the crop was watered
+const PRODUCE_RATES: Record<Irrigation, number> = {
+  natural: 0.1,
+  artificial: 0.05,
+  mixed: 0.075,
+};
+
+export interface ProduceZakat {
+  harvestKg: number;
+  irrigation: Irrigation;
+  rate: number;
+  nisabKg: number;
+  nisabMet: boolean;
+  dueKg: number;
+}
+
+/**
+ * Calculates zakat (ushr) on a harvest of storable crops, due at harvest
+ * rather than after a year
+ */
+export const calculateProduceZakat = (
+  harvestKg: number,
+  irrigation: Irrigation = "natural"
+): ProduceZakat => {
+  if (harvestKg < 0) {
+    throw new Error("The harvest cannot be negative.");
+  }
+
+  const rate = PRODUCE_RATES[irrigation];
+  const nisabMet = harvestKg >= PRODUCE_NISAB_KG;
+
+  return {
+    harvestKg,
+    irrigation,
+    rate,
+    nisabKg: PRODUCE_NISAB_KG,
+    nisabMet,
+    dueKg: nisabMet ? harvestKg * rate : 0,
+  };
+};
@@ -0,0 +1,90 @@
+/**
+ * Helpers shared by the import scripts for reading JSON/CSV dumps and
+ * maintaining the data/ manifests.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, embedded newlines
+export function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((value) => value.trim()));
+  return records.map((record) =>
+    Object.fromEntries(header.map((name, i) => [name, record[i] ?? ""]))
+  );
+}
+
+/**
+ * Reads a JSON or CSV dump into a list of records. JSON dumps may be a
+ * bare array or an object holding the array under `key` or `data`.
+ */
+export async function readRecords(file, key) {
+  const raw = await readFile(file, "utf8");
+  if (extname(file).toLowerCase() === ".csv") {
+    return parseCsv(raw);
+  }
+
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed : parsed[key] || parsed.data || [];
+}
+
+/**
+ * Returns the first non-empty value whose column name matches one of the
+ * field's aliases. Names are compared lowercased with separators removed.
+ */
+export function pickField(record, aliases, field) {
+  for (const [name, value] of Object.entries(record)) {
+    const normalized = name.toLowerCase().replace(/[^a-z0-9]/g, "");
+    if (aliases[field].includes(normalized) && value != null && value !== "") {
+      return String(value).trim();
+    }
+  }
+  return "";
+}
+
+/**
+ * Adds an entry to a data/ manifest (index.json) if it is not listed yet
+ */
+export async function addToManifest(dataDir, key, entry) {
+  const manifestPath = join(dataDir, "index.json");
+  const manifest = JSON.parse(await readFile(manifestPath, "utf8"));
+  if (!manifest[key].includes(entry)) {
+    manifest[key].push(entry);
+    await writeFile(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+  }
+}
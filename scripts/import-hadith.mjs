@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+/**
+ * Imports a hadith collection dump (JSON or CSV) into data/hadith so the
+ * local hadith provider can serve it offline.
+ *
+ * Usage: npm run import:hadith -- <collection> <dump.json|dump.csv> [name]
+ *
+ * Rows need a hadith number and an Arabic and/or English text. Book and
+ * chapter numbers and titles, in-book reference, narrator and grading are
+ * imported when present. Common column names from public dumps
+ * (hadithNumber, "Hadith No", text_ar, english, ...) are recognised.
+ */
+import { writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { addToManifest, pickField, readRecords } from "./dumps.mjs";
+
+const DATA_DIR = join(dirname(fileURLToPath(import.meta.url)), "../data/hadith");
+
+const FIELD_ALIASES = {
+  number: ["number", "hadithnumber", "hadithno", "id"],
+  arabic: ["arabic", "arabictext", "textar", "body", "haditharabic"],
+  translation: ["translation", "english", "englishtext", "texten", "hadithenglish"],
+  bookNumber: ["booknumber", "bookno", "book", "bookid"],
+  bookTitle: ["booktitle", "bookname", "bookenglish"],
+  chapterNumber: ["chapternumber", "chapterno", "chapterid", "babnumber"],
+  chapterTitle: ["chaptertitle", "chaptername", "chapterenglish", "chapter", "babname"],
+  inBookReference: ["inbookreference", "inbook", "reference"],
+  narrator: ["narrator", "narratedby", "isnad", "chain"],
+  grade: ["grade", "grading", "status"],
+  gradedBy: ["gradedby", "grader"],
+};
+
+// Builds a { number, title } section when either part is present
+const section = (number, title) =>
+  number || title ? { number, title } : undefined;
+
+async function main() {
+  const [collectionArg, file, name] = process.argv.slice(2);
+  if (!collectionArg || !file) {
+    console.error("Usage: npm run import:hadith -- <collection> <dump.json|dump.csv> [name]");
+    process.exit(1);
+  }
+
+  const collection = collectionArg.toLowerCase().trim();
+  const records = await readRecords(file, "hadiths");
+
+  const hadiths = records
+    .map((record) => {
+      const field = (name) => pickField(record, FIELD_ALIASES, name);
+      const grade = field("grade");
+
+      return {
+        number: field("number"),
+        book: section(field("bookNumber"), field("bookTitle")),
+        chapter: section(field("chapterNumber"), field("chapterTitle")),
+        inBookReference: field("inBookReference") || undefined,
+        narrator: field("narrator") || undefined,
+        arabic: field("arabic"),
+        translation: field("translation"),
+        grades: grade ? [{ grade, gradedBy: field("gradedBy") || undefined }] : [],
+      };
+    })
+    .filter((hadith) => hadith.number && (hadith.arabic || hadith.translation));
+
+  await writeFile(
+    join(DATA_DIR, `${collection}.json`),
+    JSON.stringify({ collection, name: name || collection, hadiths }, null, 2) + "\n"
+  );
+
+  await addToManifest(DATA_DIR, "collections", collection);
+
+  console.log(`✅ Imported ${hadiths.length} hadiths into ${collection}`);
+}
+
+main().catch((error) => {
+  console.error("🔥 Import failed:", error);
+  process.exit(1);
+});
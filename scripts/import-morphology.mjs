@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+/**
+ * Imports the Quranic Arabic Corpus morphology file into data/morphology so
+ * the quran_word_analysis tool can serve it offline.
+ *
+ * Usage: npm run import:morphology -- <quranic-corpus-morphology.txt> [glosses.json|glosses.csv]
+ *
+ * The morphology file has one segment per line: (surah:ayah:word:segment),
+ * the Buckwalter form, a part-of-speech tag and features such as
+ * STEM|POS:N|LEM:{som|ROOT:smw|M|GEN. The optional glosses dump adds an
+ * English gloss and transliteration per word (surah, ayah, word columns).
+ *
+ * Writes one file per surah plus lexicon.json, which indexes every word by
+ * root and by its normalized form, and replaces index.json.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { pickField, readRecords } from "./dumps.mjs";
+
+const DATA_DIR = join(dirname(fileURLToPath(import.meta.url)), "../data/morphology");
+
+const FIELD_ALIASES = {
+  surah: ["surah", "sura", "chapter", "surahnumber"],
+  ayah: ["ayah", "aya", "verse", "ayahnumber", "versenumber"],
+  word: ["word", "position", "wordnumber", "wordposition"],
+  gloss: ["gloss", "translation", "english", "meaning"],
+  transliteration: ["transliteration", "translit"],
+};
+
+// Extended Buckwalter transliteration used by the corpus
+const BUCKWALTER = {
+  "'": "ء", "|": "آ", ">": "أ", "&": "ؤ", "<": "إ", "}": "ئ", A: "ا", b: "ب",
+  p: "ة", t: "ت", v: "ث", j: "ج", H: "ح", x: "خ", d: "د", "*": "ذ", r: "ر",
+  z: "ز", s: "س", $: "ش", S: "ص", D: "ض", T: "ط", Z: "ظ", E: "ع", g: "غ",
+  _: "ـ", f: "ف", q: "ق", k: "ك", l: "ل", m: "م", n: "ن", h: "ه", w: "و",
+  Y: "ى", y: "ي", F: "ً", N: "ٌ", K: "ٍ", a: "َ", u: "ُ", i: "ِ", "~": "ّ",
+  o: "ْ", "`": "ٰ", "{": "ٱ", "^": "ٓ", "#": "ٔ", ":": "ۜ", "@": "۟",
+  '"': "۠", "[": "ۢ", ";": "۪", ",": "ۭ", ".": "۬", "!": "ۨ", "-": "ۧ",
+  "+": "۫", "%": "ۥ", "]": "ۦ",
+};
+
+const toArabic = (buckwalter) =>
+  [...buckwalter].map((char) => BUCKWALTER[char] ?? char).join("");
+
+// Must match normalizeText in lib/textSearch.ts
+const normalizeArabic = (text) =>
+  text
+    .replace(/[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه");
+
+const PARTS_OF_SPEECH = {
+  N: "noun", PN: "proper noun", ADJ: "adjective", IMPN: "imperative verbal noun",
+  PRON: "personal pronoun", DEM: "demonstrative pronoun", REL: "relative pronoun",
+  T: "time adverb", LOC: "location adverb", V: "verb", P: "preposition",
+  EMPH: "emphatic particle", IMPV: "imperative particle", PRP: "purpose particle",
+  CONJ: "coordinating conjunction", SUB: "subordinating conjunction",
+  ACC: "accusative particle", AMD: "amendment particle", ANS: "answer particle",
+  AVR: "aversion particle", CAUS: "particle of cause", CERT: "particle of certainty",
+  CIRC: "circumstantial particle", COM: "comitative particle", COND: "conditional particle",
+  EQ: "equalization particle", EXH: "exhortation particle", EXL: "explanation particle",
+  EXP: "exceptive particle", FUT: "future particle", INC: "inceptive particle",
+  INT: "particle of interpretation", INTG: "interrogative particle", NEG: "negative particle",
+  PREV: "preventive particle", PRO: "prohibition particle", REM: "resumption particle",
+  RES: "restriction particle", RET: "retraction particle", RSLT: "result particle",
+  SUP: "supplemental particle", SUR: "surprise particle", VOC: "vocative particle",
+  INL: "Quranic initials", DET: "determiner",
+};
+
+const FEATURES = {
+  NOM: "nominative", ACC: "accusative", GEN: "genitive",
+  PERF: "perfect", IMPF: "imperfect", IMPV: "imperative",
+  PASS: "passive", INDEF: "indefinite", VN: "verbal noun",
+  "MOOD:IND": "indicative", "MOOD:SUBJ": "subjunctive", "MOOD:JUS": "jussive",
+};
+
+const PERSON = { 1: "1st person", 2: "2nd person", 3: "3rd person" };
+const GENDER = { M: "masculine", F: "feminine" };
+const NUMBER = { S: "singular", D: "dual", P: "plural" };
+
+// "3MP" -> "3rd person masculine plural"
+const describeAgreement = (tag) => {
+  const match = tag.match(/^([123])?([MF])?([SDP])?$/);
+  if (!match || !tag) return null;
+  const [, person, gender, number] = match;
+  return [PERSON[person], GENDER[gender], NUMBER[number]].filter(Boolean).join(" ");
+};
+
+const describeStem = (features) => {
+  const described = [];
+  for (let i = 0; i < features.length; i++) {
+    const feature = features[i];
+    if (feature === "ACT" || feature === "PASS") {
+      if (features[i + 1] === "PCPL") {
+        described.push(feature === "ACT" ? "active participle" : "passive participle");
+        i++;
+        continue;
+      }
+    }
+    const form = feature.match(/^\(([IVX]+)\)$/);
+    if (form) {
+      described.push(`verb form ${form[1]}`);
+    } else if (FEATURES[feature]) {
+      described.push(FEATURES[feature]);
+    } else if (describeAgreement(feature)) {
+      described.push(describeAgreement(feature));
+    }
+  }
+  return described;
+};
+
+// "w:CONJ+" -> "prefixed وَ (coordinating conjunction)"
+const describeAffix = (segment) => {
+  const [kind, value] = segment.features;
+  if (kind === "PREFIX") {
+    if (value === "Al+") return "prefixed definite article";
+    const [form, tag] = value.replace(/\+$/, "").split(":");
+    return `prefixed ${toArabic(segment.form || form)} (${PARTS_OF_SPEECH[tag ?? segment.tag] ?? "particle"})`;
+  }
+  const pronoun = value?.match(/^PRON:(\w+)$/);
+  if (pronoun) return `suffixed pronoun (${describeAgreement(pronoun[1])})`;
+  return `suffixed ${toArabic(segment.form)} (${PARTS_OF_SPEECH[segment.tag] ?? "particle"})`;
+};
+
+async function readGlosses(file) {
+  const glosses = new Map();
+  if (!file) return glosses;
+
+  for (const record of await readRecords(file, "words")) {
+    const field = (name) => pickField(record, FIELD_ALIASES, name);
+    const key = `${Number(field("surah"))}:${Number(field("ayah"))}:${Number(field("word"))}`;
+    glosses.set(key, {
+      gloss: field("gloss") || undefined,
+      transliteration: field("transliteration") || undefined,
+    });
+  }
+  return glosses;
+}
+
+async function main() {
+  const [file, glossFile] = process.argv.slice(2);
+  if (!file) {
+    console.error("Usage: npm run import:morphology -- <quranic-corpus-morphology.txt> [glosses.json|glosses.csv]");
+    process.exit(1);
+  }
+
+  const glosses = await readGlosses(glossFile);
+
+  // Group segments by word
+  const words = new Map();
+  for (const line of (await readFile(file, "utf8")).split(/\r?\n/)) {
+    const match = line.match(/^\((\d+):(\d+):(\d+):(\d+)\)\t([^\t]*)\t([^\t]*)\t([^\t]*)$/);
+    if (!match) continue;
+
+    const [, surah, ayah, word, , form, tag, features] = match;
+    const key = `${Number(surah)}:${Number(ayah)}:${Number(word)}`;
+    if (!words.has(key)) {
+      words.set(key, { surah: Number(surah), segments: [] });
+    }
+    words.get(key).segments.push({ form, tag, features: features.split("|") });
+  }
+
+  const surahs = new Map();
+  const roots = {};
+  const forms = {};
+
+  for (const [location, { surah, segments }] of words) {
+    const stem = segments.find(({ features }) => features[0] === "STEM") ?? segments[0];
+    const feature = (name) =>
+      stem.features.find((f) => f.startsWith(`${name}:`))?.slice(name.length + 1);
+
+    const root = feature("ROOT") ? toArabic(feature("ROOT")) : undefined;
+    const arabic = toArabic(segments.map(({ form }) => form).join(""));
+    const entry = {
+      location,
+      arabic,
+      ...glosses.get(location),
+      root,
+      lemma: feature("LEM") ? toArabic(feature("LEM")) : undefined,
+      pos: PARTS_OF_SPEECH[stem.tag] ?? stem.tag,
+      features: [
+        ...segments.filter((segment) => segment !== stem && segment.features[0] === "PREFIX").map(describeAffix),
+        ...describeStem(stem.features.slice(1)),
+        ...segments.filter((segment) => segment !== stem && segment.features[0] === "SUFFIX").map(describeAffix),
+      ],
+    };
+
+    if (!surahs.has(surah)) surahs.set(surah, []);
+    surahs.get(surah).push(entry);
+
+    if (root) (roots[root] ??= []).push(location);
+    (forms[normalizeArabic(arabic)] ??= []).push(location);
+  }
+
+  for (const [surah, surahWords] of surahs) {
+    await writeFile(
+      join(DATA_DIR, `${surah}.json`),
+      JSON.stringify({ surah, words: surahWords }, null, 2) + "\n"
+    );
+  }
+
+  await writeFile(join(DATA_DIR, "lexicon.json"), JSON.stringify({ roots, forms }) + "\n");
+  await writeFile(
+    join(DATA_DIR, "index.json"),
+    JSON.stringify({ surahs: [...surahs.keys()].sort((a, b) => a - b) }, null, 2) + "\n"
+  );
+
+  console.log(`✅ Imported ${words.size} words from ${surahs.size} surahs (${Object.keys(roots).length} roots)`);
+}
+
+main().catch((error) => {
+  console.error("🔥 Import failed:", error);
+  process.exit(1);
+});
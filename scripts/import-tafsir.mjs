@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+/**
+ * Imports a tafsir (commentary) dump (JSON or CSV) into data/tafsir so the
+ * local tafsir source can serve it offline.
+ *
+ * Usage: npm run import:tafsir -- <work> <dump.json|dump.csv> <name> <language>
+ *
+ * Rows need a surah, an ayah (or an ayah range via from/to columns) and the
+ * commentary text. Rows for the same passage are joined in order.
+ */
+import { writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { addToManifest, pickField, readRecords } from "./dumps.mjs";
+
+const DATA_DIR = join(dirname(fileURLToPath(import.meta.url)), "../data/tafsir");
+
+const FIELD_ALIASES = {
+  surah: ["surah", "sura", "chapter", "surahnumber", "chapternumber"],
+  fromAyah: ["fromayah", "from", "ayah", "aya", "verse", "ayahnumber", "versenumber"],
+  toAyah: ["toayah", "to"],
+  text: ["text", "tafsir", "commentary", "content"],
+};
+
+async function main() {
+  const [workArg, file, name, language] = process.argv.slice(2);
+  if (!workArg || !file || !name || !language) {
+    console.error("Usage: npm run import:tafsir -- <work> <dump.json|dump.csv> <name> <language>");
+    process.exit(1);
+  }
+
+  const id = workArg.toLowerCase().trim();
+  const records = await readRecords(file, "passages");
+
+  // Merge rows that belong to the same passage
+  const passages = new Map();
+  for (const record of records) {
+    const surah = Number(pickField(record, FIELD_ALIASES, "surah"));
+    const fromAyah = Number(pickField(record, FIELD_ALIASES, "fromAyah"));
+    const toAyah = Number(pickField(record, FIELD_ALIASES, "toAyah")) || fromAyah;
+    const text = pickField(record, FIELD_ALIASES, "text");
+    if (!surah || !fromAyah || !text) continue;
+
+    const key = `${surah}:${fromAyah}-${toAyah}`;
+    const existing = passages.get(key);
+    if (existing) {
+      existing.text += `\n\n${text}`;
+    } else {
+      passages.set(key, { surah, fromAyah, toAyah, text });
+    }
+  }
+
+  const sorted = [...passages.values()].sort(
+    (a, b) => a.surah - b.surah || a.fromAyah - b.fromAyah
+  );
+
+  await writeFile(
+    join(DATA_DIR, `${id}.json`),
+    JSON.stringify({ id, name, language, passages: sorted }, null, 2) + "\n"
+  );
+
+  await addToManifest(DATA_DIR, "works", id);
+
+  console.log(`✅ Imported ${sorted.length} passages into ${id}`);
+}
+
+main().catch((error) => {
+  console.error("🔥 Import failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    // Needed for convex-test, which Convex function tests run under
+    server: { deps: { inline: ["convex-test"] } },
+  },
+});